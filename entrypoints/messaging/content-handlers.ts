@@ -2,12 +2,52 @@ import { onMessage } from './protocol';
 import { Interactions } from '../../src/content/interactions';
 import { WaitFor } from '../../src/content/wait-for';
 import { PageInfo } from '../../src/content/page-info';
+import { Extractor } from '../../src/content/extractor';
+import { ElementRefs } from '../../src/content/element-refs';
+import { ElementLocator, type Locator } from '../../src/content/locators';
+import { DragAndDrop, type DragDestination, type Point } from '../../src/content/drag';
+import { FileUpload } from '../../src/content/upload';
+
+/**
+ * Resolve the locator for a message that targets an element by selector, snapshot ref or locator
+ */
+function targetLocator(data: { selector?: string; ref?: string; locator?: Locator }): Locator {
+  if (data.locator) {
+    return data.locator;
+  }
+  if (data.ref) {
+    if (!ElementRefs.resolve(data.ref)) {
+      throw new Error(`Element ref "${data.ref}" not found, take a new snapshot`);
+    }
+    return ElementLocator.byRef(data.ref);
+  }
+  if (!data.selector) {
+    throw new Error('One of selector, ref or locator is required');
+  }
+  return ElementLocator.byCSS(data.selector);
+}
+
+/**
+ * Resolve where a drag should end
+ */
+function dragDestination(data: { target?: { selector?: string; ref?: string; locator?: Locator }; offset?: Point; to?: Point }): DragDestination {
+  if (data.target) {
+    return { locator: targetLocator(data.target) };
+  }
+  if (data.offset) {
+    return { offset: data.offset };
+  }
+  if (data.to) {
+    return { point: data.to };
+  }
+  throw new Error('One of target, offset or to is required');
+}
 
 // Register all content script handlers
 
 // Interaction handlers
 onMessage('click', async ({ data }) => {
-  return await Interactions.click(data.selector, data.options || {});
+  return await Interactions.click(targetLocator(data), data.options || {});
 });
 
 onMessage('click_at', async ({ data }) => {
@@ -15,39 +55,99 @@ onMessage('click_at', async ({ data }) => {
 });
 
 onMessage('fill', async ({ data }) => {
-  return await Interactions.fill(data.selector, data.value, data.options || {});
+  return await Interactions.fill(targetLocator(data), data.value, data.options || {});
 });
 
 onMessage('type', async ({ data }) => {
-  return await Interactions.type(data.selector, data.text, data.options || {});
+  return await Interactions.type(targetLocator(data), data.text, data.options || {});
 });
 
 onMessage('press_key', async ({ data }) => {
   return await Interactions.pressKey(data.key, data.options || {});
 });
 
+onMessage('press_keys', async ({ data }) => {
+  return await Interactions.pressKeys(data.keys, { delay: data.delay });
+});
+
 onMessage('hover', async ({ data }) => {
-  return await Interactions.hover(data.selector, data.options || {});
+  return await Interactions.hover(targetLocator(data), data.options || {});
 });
 
 onMessage('select_option', async ({ data }) => {
-  return await Interactions.selectOption(data.selector, data.value);
+  return await Interactions.selectOption(targetLocator(data), data.value);
+});
+
+onMessage('drag', async ({ data }) => {
+  return await DragAndDrop.drag(targetLocator(data), dragDestination(data), {
+    mode: data.mode,
+    steps: data.steps,
+    delay: data.delay,
+  });
+});
+
+onMessage('upload_file', async ({ data }) => {
+  return await FileUpload.upload(targetLocator(data), data.files, data.mode);
+});
+
+onMessage('get_drag_points', async ({ data }) => {
+  try {
+    const { mode, from, to } = await DragAndDrop.resolve(targetLocator(data), dragDestination(data), data.mode);
+    const offset = Interactions.getFrameOffset();
+    if (!offset) {
+      return { success: true, mode };
+    }
+    return {
+      success: true,
+      mode,
+      from: { x: from.x + offset.x, y: from.y + offset.y },
+      to: { x: to.x + offset.x, y: to.y + offset.y },
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+onMessage('get_click_point', async ({ data }) => {
+  return await Interactions.getClickPoint(targetLocator(data), { waitForClickable: data.waitForClickable });
+});
+
+onMessage('get_frame_offset', async () => {
+  return Interactions.getFrameOffset();
+});
+
+onMessage('focus', async ({ data }) => {
+  return await Interactions.focus(targetLocator(data), { select: data.select });
 });
 
 // Content handlers
 onMessage('get_page_content', async ({ data }) => {
-  const content = data.selector ? PageInfo.getPageContent(data.selector) : PageInfo.getPageContent();
+  const content = PageInfo.getPageContent(data.selector, {
+    format: data.format,
+    maxLength: data.maxLength,
+    cursor: data.cursor,
+  });
   return { success: true, content };
 });
 
 onMessage('query_selector', async ({ data }) => {
-  const result = await WaitFor.element(data.selector);
+  const result = await WaitFor.element(targetLocator(data));
   const element = Array.isArray(result) ? result[0] : result;
   return { success: true, element: PageInfo.getElementInfo(element) };
 });
 
+onMessage('snapshot', async ({ data }) => {
+  return {
+    success: true,
+    snapshot: PageInfo.getSnapshot({
+      selector: data.selector,
+      interactiveOnly: data.interactiveOnly,
+    }),
+  };
+});
+
 onMessage('query_selector_all', async ({ data }) => {
-  const result = await WaitFor.element(data.selector, { all: true });
+  const result = await WaitFor.element(targetLocator(data), { all: true });
   const elements = Array.isArray(result) ? result : [result];
   return { success: true, elements: elements.map(el => PageInfo.getElementInfo(el)) };
 });
@@ -56,30 +156,60 @@ onMessage('get_form_values', async ({ data }) => {
   return { success: true, values: PageInfo.getFormValues(data.selector) };
 });
 
+onMessage('extract', async ({ data }) => {
+  const result = Extractor.extract(data.mode, {
+    selector: data.selector,
+    sameOriginOnly: data.sameOriginOnly,
+    filter: data.filter,
+    limit: data.limit,
+  });
+  return { success: true, mode: data.mode, result };
+});
+
+onMessage('extract_structured', async ({ data }) => {
+  const result = Extractor.extractStructured(data.root, data.fields, data.limit);
+  return { success: true, result };
+});
+
 onMessage('get_text', async ({ data }) => {
-  return await Interactions.getText(data.selector);
+  return await Interactions.getText(targetLocator(data));
 });
 
 onMessage('get_attribute', async ({ data }) => {
-  return await Interactions.getAttribute(data.selector, data.attribute);
+  return await Interactions.getAttribute(targetLocator(data), data.attribute);
 });
 
 // Waiting handlers
 onMessage('wait_for', async ({ data }) => {
-  await WaitFor.element(data.selector, data.options);
+  await WaitFor.element(targetLocator(data), data.options);
   return { success: true };
 });
 
 onMessage('wait_for_visible', async ({ data }) => {
-  await WaitFor.visible(data.selector, data.options);
+  await WaitFor.visible(targetLocator(data), data.options);
   return { success: true };
 });
 
 onMessage('wait_for_text', async ({ data }) => {
-  await WaitFor.textContent(data.selector, data.text, data.options);
+  await WaitFor.textContent(targetLocator(data), data.text, data.options);
   return { success: true };
 });
 
+// Viewport handlers
+onMessage('get_page_metrics', async () => {
+  return PageInfo.getPageMetrics();
+});
+
+onMessage('scroll_to', async ({ data }) => {
+  return await Interactions.scrollTo(data.x, data.y);
+});
+
+onMessage('get_element_rect', async ({ data }) => {
+  const result = await WaitFor.visible(targetLocator(data));
+  const element = Array.isArray(result) ? result[0] : result;
+  return { success: true, rect: PageInfo.getDocumentRect(element) };
+});
+
 // Health check
 onMessage('ping', async () => {
   return { pong: true };
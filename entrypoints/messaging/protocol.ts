@@ -1,6 +1,17 @@
 import { defineExtensionMessaging } from '@webext-core/messaging';
 import type { JsonValue } from '../../types/index';
-import type { PageContent, ElementInfo } from '../../types/messaging';
+import type { PageContent, ElementInfo, PageSnapshot } from '../../types/messaging';
+import type { PageMetrics, DocumentRect } from '../../src/content/page-info';
+import type { ExtractMode, StructuredResult } from '../../src/content/extractor';
+import type { DragMode, DragResult, Point } from '../../src/content/drag';
+import type { UploadFilePayload, UploadMode, UploadResult } from '../../src/content/upload';
+import type { Locator, StructuredField } from '../../types/tools';
+
+// Element targeted by CSS selector, snapshot ref or locator object
+type ElementTarget = { selector?: string; ref?: string; locator?: Locator };
+
+// Drag source plus where to drop it
+type DragInput = ElementTarget & { target?: ElementTarget; offset?: Point; to?: Point; mode?: DragMode | 'auto' };
 
 // Unified protocol for extension-internal messaging
 interface ExtensionProtocolMap {
@@ -14,33 +25,51 @@ interface ExtensionProtocolMap {
   get_current_tab: () => Promise<{ id: number; url?: string; title?: string } | null>;
 
   // Page content
-  get_page_content: (input: { selector?: string; tabId?: number }) => Promise<{ success: boolean; content?: PageContent; error?: string }>;
+  get_page_content: (input: { selector?: string; format?: 'html' | 'text' | 'markdown' | 'article'; maxLength?: number; cursor?: string; tabId?: number }) => Promise<{ success: boolean; content?: PageContent; error?: string }>;
+  snapshot: (input: { selector?: string; interactiveOnly?: boolean; tabId?: number }) => Promise<{ success: boolean; snapshot?: PageSnapshot; error?: string }>;
   screenshot: (input: { tabId?: number; format?: 'png' | 'jpeg'; quality?: number }) => Promise<{ success: boolean; screenshot?: { dataUrl: string; width: number; height: number } }>;
 
   // Element interactions
-  click: (input: { selector: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
+  click: (input: ElementTarget & { tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
   click_at: (input: { x: number; y: number; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
-  fill: (input: { selector: string; value: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
-  type: (input: { selector: string; text: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
+  fill: (input: ElementTarget & { value: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; value?: string; error?: string; code?: string }>;
+  type: (input: ElementTarget & { text: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; value?: string; error?: string; code?: string }>;
   press_key: (input: { key: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
-  hover: (input: { selector: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
-  select_option: (input: { selector: string; value: string }) => Promise<{ success: boolean; error?: string }>;
+  press_keys: (input: { keys: string; delay?: number; tabId?: number }) => Promise<{ success: boolean; target?: string; error?: string }>;
+  hover: (input: ElementTarget & { tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
+  select_option: (input: ElementTarget & { value: string; tabId?: number }) => Promise<{ success: boolean; error?: string }>;
+
+  drag: (input: DragInput & { steps?: number; delay?: number; tabId?: number }) => Promise<DragResult>;
+  upload_file: (input: ElementTarget & { files: UploadFilePayload[]; mode?: UploadMode | 'auto'; tabId?: number }) => Promise<UploadResult>;
+
+  // Trusted input preparation (the events themselves are sent by the background)
+  get_click_point: (input: ElementTarget & { waitForClickable?: boolean }) => Promise<{ success: boolean; point?: { x: number; y: number }; error?: string }>;
+  get_frame_offset: () => Promise<{ x: number; y: number } | null>;
+  get_drag_points: (input: DragInput) => Promise<{ success: boolean; mode?: DragMode; from?: Point; to?: Point; error?: string }>;
+  focus: (input: ElementTarget & { select?: boolean }) => Promise<{ success: boolean; error?: string }>;
 
   // Element queries
-  query_selector: (input: { selector: string; tabId?: number }) => Promise<{ success: boolean; element?: ElementInfo; error?: string }>;
-  query_selector_all: (input: { selector: string; tabId?: number }) => Promise<{ success: boolean; elements?: ElementInfo[]; error?: string }>;
+  query_selector: (input: ElementTarget & { tabId?: number }) => Promise<{ success: boolean; element?: ElementInfo; error?: string }>;
+  query_selector_all: (input: ElementTarget & { tabId?: number }) => Promise<{ success: boolean; elements?: ElementInfo[]; error?: string }>;
 
   // Element data
-  get_text: (input: { selector: string; tabId?: number }) => Promise<{ success: boolean; text?: string; error?: string }>;
-  get_attribute: (input: { selector: string; attribute: string; tabId?: number }) => Promise<{ success: boolean; attribute?: string | null; error?: string }>;
+  get_text: (input: ElementTarget & { tabId?: number }) => Promise<{ success: boolean; text?: string; error?: string }>;
+  get_attribute: (input: ElementTarget & { attribute: string; tabId?: number }) => Promise<{ success: boolean; value?: string; error?: string }>;
 
   // Form helpers
+  extract: (input: { mode: ExtractMode; selector?: string; sameOriginOnly?: boolean; filter?: string; limit?: number; tabId?: number }) => Promise<{ success: boolean; mode?: ExtractMode; result?: JsonValue; error?: string }>;
+  extract_structured: (input: { root: Locator; fields: Record<string, StructuredField>; limit?: number; tabId?: number }) => Promise<{ success: boolean; result?: StructuredResult; error?: string }>;
   get_form_values: (input: { selector?: string; tabId?: number }) => Promise<{ success: boolean; values?: Record<string, FormDataEntryValue | FormDataEntryValue[]>; error?: string }>;
 
   // Waiting
-  wait_for: (input: { selector: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
-  wait_for_visible: (input: { selector: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
-  wait_for_text: (input: { selector: string; text: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
+  wait_for: (input: ElementTarget & { tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
+  wait_for_visible: (input: ElementTarget & { tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
+  wait_for_text: (input: ElementTarget & { text: string; tabId?: number; options?: Record<string, JsonValue> }) => Promise<{ success: boolean; error?: string }>;
+
+  // Viewport and scrolling
+  get_page_metrics: () => Promise<PageMetrics>;
+  scroll_to: (input: { x: number; y: number }) => Promise<{ scrollX: number; scrollY: number }>;
+  get_element_rect: (input: ElementTarget) => Promise<{ success: boolean; rect?: DocumentRect; error?: string }>;
 
   // Health check
   ping: () => Promise<{ pong: boolean }>;
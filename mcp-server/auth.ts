@@ -0,0 +1,58 @@
+/**
+ * Bridge Authentication
+ *
+ * The bridge and MCP server share a secret token. It is read from the
+ * MCP_BRIDGE_TOKEN environment variable or from ~/.mcp-in-browser/bridge-token,
+ * which is created with a random token on first use.
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+export const TOKEN_FILE = process.env.MCP_BRIDGE_TOKEN_FILE || join(homedir(), '.mcp-in-browser', 'bridge-token');
+
+/**
+ * Read the shared bridge token, generating and persisting one if none exists
+ */
+export function loadBridgeToken(): string {
+  const fromEnv = process.env.MCP_BRIDGE_TOKEN?.trim();
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  if (existsSync(TOKEN_FILE)) {
+    const stored = readFileSync(TOKEN_FILE, 'utf8').trim();
+    if (stored) {
+      return stored;
+    }
+  }
+
+  const token = randomBytes(32).toString('hex');
+  mkdirSync(dirname(TOKEN_FILE), { recursive: true, mode: 0o700 });
+  writeFileSync(TOKEN_FILE, `${token}\n`, { mode: 0o600 });
+  chmodSync(TOKEN_FILE, 0o600);
+  console.error(`[Auth] Generated bridge token in ${TOKEN_FILE}`);
+  return token;
+}
+
+/**
+ * Constant-time token comparison
+ */
+export function tokensMatch(expected: string, actual: unknown): boolean {
+  if (typeof actual !== 'string') {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Extract the extension ID from a chrome-extension:// or moz-extension:// origin
+ */
+export function getExtensionId(origin: string | undefined): string | null {
+  const match = origin ? /^(?:chrome|moz)-extension:\/\/([^/]+)$/.exec(origin) : null;
+  return match ? match[1] : null;
+}
@@ -7,109 +7,509 @@
  * Both the extension and MCP server connect as WebSocket clients, and the bridge
  * forwards messages between them.
  *
+ * The MCP server embeds the bridge when none is listening (see startBridge), so
+ * running it standalone is optional.
+ *
+ * Several MCP servers (sessions) may connect at once. Each gets a session ID;
+ * tool calls are tagged with it and responses are routed back by request ID.
+ *
+ * Several browsers/extensions may connect at once. Each registers an identity
+ * in hello, and every tool call is routed to exactly one of them: the
+ * `browserId` of the call, else the browser the session last chose, else
+ * MCP_BRIDGE_DEFAULT_BROWSER, else the browser that connected first.
+ *
+ * Clients authenticate in their hello message with the shared bridge token.
+ * Extensions must also connect from an extension origin. Origins can be forged
+ * by local processes, so the token is required from extensions too unless
+ * MCP_BRIDGE_REQUIRE_EXTENSION_TOKEN=0 is set.
+ *
  * Usage: node bridge.ts [port]
  * Default port: 37373
+ *
+ * Environment:
+ *   MCP_BRIDGE_HOST                    Interface to bind (default: 127.0.0.1)
+ *   MCP_BRIDGE_TOKEN                   Shared secret (default: read/generated in ~/.mcp-in-browser/bridge-token)
+ *   MCP_BRIDGE_EXTENSION_IDS           Comma-separated extension IDs allowed to connect (default: any)
+ *   MCP_BRIDGE_REQUIRE_EXTENSION_TOKEN Set to 0 to let extensions connect without the token (not recommended)
+ *   MCP_BRIDGE_DEFAULT_BROWSER         ID or name of the browser to use when a call names none
  */
 
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { pathToFileURL } from 'node:url';
 import { WebSocketServer } from 'ws';
 import type { WebSocket } from 'ws';
+import { getExtensionId, loadBridgeToken, tokensMatch, TOKEN_FILE } from './auth';
+import type { BrowserIdentity, BrowserInfo } from '../types/bridge';
+
+export const DEFAULT_BRIDGE_PORT = 37373;
+
+// Clients must say hello within this time
+const HANDSHAKE_TIMEOUT_MS = 10000;
+
+export interface BridgeOptions {
+  port: number;
+  host: string;
+  token: string;
+  /** Extension IDs allowed to connect (empty = any extension) */
+  allowedExtensionIds: string[];
+  requireExtensionToken: boolean;
+  /** ID or name of the browser used when a call names none */
+  defaultBrowser?: string;
+}
+
+interface ExtensionClient {
+  ws: WebSocket;
+  identity: BrowserIdentity;
+  extensionId?: string;
+  tools?: string[];
+  connectedAt: Date;
+}
+
+interface PendingCall {
+  sessionId: string;
+  browserId: string;
+}
+
+/**
+ * Read bridge options from the environment
+ */
+export function getBridgeOptionsFromEnv(port = DEFAULT_BRIDGE_PORT): BridgeOptions {
+  return {
+    port,
+    host: process.env.MCP_BRIDGE_HOST || '127.0.0.1',
+    token: loadBridgeToken(),
+    allowedExtensionIds: (process.env.MCP_BRIDGE_EXTENSION_IDS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+    requireExtensionToken: process.env.MCP_BRIDGE_REQUIRE_EXTENSION_TOKEN !== '0',
+    defaultBrowser: process.env.MCP_BRIDGE_DEFAULT_BROWSER,
+  };
+}
+
+/**
+ * Reject a client with an explicit error message and close the connection
+ */
+function reject(ws: WebSocket, error: string) {
+  console.error(`[Bridge] Rejecting client: ${error}`);
+  ws.send(JSON.stringify({ type: 'error', error }));
+  ws.close(1008, 'Unauthorized');
+}
+
+export class BridgeServer {
+  private wss: WebSocketServer | null = null;
+
+  // Connected extensions by browser ID, in connection order
+  private extensionClients = new Map<string, ExtensionClient>();
+  // MCP server clients by session ID
+  private mcpSessions = new Map<string, WebSocket>();
+  // In-flight tool calls by request ID
+  private pendingCalls = new Map<string, PendingCall>();
+  // Browser each session last chose explicitly
+  private sessionBrowsers = new Map<string, string>();
 
-const PORT = process.argv[2] ? parseInt(process.argv[2], 10) : 37373;
+  constructor(private options: BridgeOptions) {}
 
-// Store for connected clients
-const extensionClients = new Set<WebSocket>();
-let mcpServerClient: WebSocket | null = null;
+  /**
+   * Start listening. Rejects (e.g. with EADDRINUSE) if the port cannot be bound.
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const wss = new WebSocketServer({
+        port: this.options.port,
+        host: this.options.host,
+        // Browsers always send an Origin: only extension pages may connect, never web pages
+        verifyClient: ({ origin }: { origin?: string }) => this.verifyOrigin(origin),
+      });
 
-// Create WebSocket server
-const wss = new WebSocketServer({ port: PORT });
+      wss.once('error', reject);
+      wss.once('listening', () => {
+        wss.off('error', reject);
+        wss.on('error', (error) => {
+          console.error(`[Bridge] Server error:`, error);
+        });
+        wss.on('connection', (ws, req) => this.handleConnection(ws, req));
 
-console.error(`[Bridge] WebSocket server started on ws://localhost:${PORT}`);
-console.error(`[Bridge] Waiting for clients to connect...`);
+        this.wss = wss;
+        console.error(`[Bridge] WebSocket server started on ws://${this.options.host}:${this.options.port}`);
+        if (!this.options.requireExtensionToken) {
+          console.error('[Bridge] Warning: extensions may connect without the bridge token (MCP_BRIDGE_REQUIRE_EXTENSION_TOKEN=0)');
+        }
+        resolve();
+      });
+    });
+  }
 
-wss.on('connection', (ws, req) => {
-  const clientIp = req.socket.remoteAddress;
-  console.error(`[Bridge] Client connected: ${clientIp}`);
+  /**
+   * Stop listening and disconnect all clients
+   */
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.wss) {
+        resolve();
+        return;
+      }
+      for (const client of this.wss.clients) {
+        client.close(1001, 'Bridge shutting down');
+      }
+      this.wss.close(() => resolve());
+      this.wss = null;
+    });
+  }
 
-  // Track client type
-  let clientType: 'extension' | 'mcp-server' | null = null;
+  private verifyOrigin(origin: string | undefined): boolean {
+    if (!origin) {
+      return true;
+    }
+    const extensionId = getExtensionId(origin);
+    if (!extensionId) {
+      console.error(`[Bridge] Refusing connection from origin ${origin}`);
+      return false;
+    }
+    const allowed = this.options.allowedExtensionIds;
+    if (allowed.length > 0 && !allowed.includes(extensionId)) {
+      console.error(`[Bridge] Refusing connection from extension ${extensionId} (not allowed)`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Tools supported by the connected extensions (undefined = unknown or none connected)
+   */
+  private getExtensionTools(): string[] | undefined {
+    const clients = Array.from(this.extensionClients.values());
+    if (clients.length === 0 || clients.some((client) => !client.tools)) {
+      return undefined;
+    }
+    return Array.from(new Set(clients.flatMap((client) => client.tools!)));
+  }
+
+  /**
+   * Tell MCP servers (one, or all sessions) which tools the connected extensions support
+   */
+  private sendCapabilities(target?: WebSocket) {
+    const message = JSON.stringify({ type: 'capabilities', tools: this.getExtensionTools() });
+    for (const client of target ? [target] : this.mcpSessions.values()) {
+      if (client.readyState === 1) {
+        client.send(message);
+      }
+    }
+  }
+
+  /**
+   * Tell extensions a session is gone so they can release its tabs
+   */
+  private sendSessionClosed(sessionId: string) {
+    const message = JSON.stringify({ type: 'session_closed', sessionId });
+    for (const client of this.extensionClients.values()) {
+      if (client.ws.readyState === 1) {
+        client.ws.send(message);
+      }
+    }
+  }
+
+  /**
+   * Find a connected browser by ID or name
+   */
+  private findBrowser(idOrName: string): ExtensionClient | undefined {
+    return this.extensionClients.get(idOrName)
+      ?? Array.from(this.extensionClients.values()).find((client) => client.identity.name === idOrName);
+  }
+
+  /**
+   * Browser used when a call does not name one
+   */
+  private getDefaultBrowser(sessionId?: string): ExtensionClient | undefined {
+    const chosen = sessionId ? this.sessionBrowsers.get(sessionId) : undefined;
+    const { defaultBrowser } = this.options;
+    return (chosen && this.extensionClients.get(chosen))
+      || (defaultBrowser && this.findBrowser(defaultBrowser))
+      || this.extensionClients.values().next().value;
+  }
+
+  /**
+   * Pick the single browser a tool call runs in
+   */
+  private selectBrowser(sessionId: string, browserId?: string): ExtensionClient | { error: string; code: string } {
+    if (browserId) {
+      const client = this.findBrowser(browserId);
+      if (!client) {
+        return { error: `Browser "${browserId}" is not connected. Use list_browsers to see connected browsers`, code: 'BROWSER_NOT_FOUND' };
+      }
+      this.sessionBrowsers.set(sessionId, client.identity.id);
+      return client;
+    }
+
+    return this.getDefaultBrowser(sessionId)
+      ?? { error: 'No browser extension connected to the bridge', code: 'BRIDGE_NOT_CONNECTED' };
+  }
+
+  /**
+   * Connected browsers as reported by list_browsers
+   */
+  private listBrowsers(sessionId: string): BrowserInfo[] {
+    const defaultBrowser = this.getDefaultBrowser(sessionId);
+    return Array.from(this.extensionClients.values()).map((client) => ({
+      ...client.identity,
+      extensionId: client.extensionId,
+      connectedAt: client.connectedAt.toISOString(),
+      isDefault: client === defaultBrowser,
+    }));
+  }
+
+  private handleConnection(ws: WebSocket, req: IncomingMessage) {
+    const { token, requireExtensionToken } = this.options;
+    const clientIp = req.socket.remoteAddress;
+    const extensionId = getExtensionId(req.headers.origin);
+    console.error(`[Bridge] Client connected: ${clientIp}${extensionId ? ` (extension ${extensionId})` : ''}`);
+
+    // Track client type (set once authenticated)
+    let clientType: 'extension' | 'mcp-server' | null = null;
+    let sessionId: string | null = null;
+    let browserId: string | null = null;
+
+    const handshakeTimer = setTimeout(() => {
+      if (!clientType) {
+        reject(ws, 'Handshake timeout: send hello with a valid token');
+      }
+    }, HANDSHAKE_TIMEOUT_MS);
+
+    ws.on('message', (data: Buffer) => {
+      try {
+        const message = JSON.parse(data.toString());
+
+        // First message identifies and authenticates the client
+        if (message.type === 'hello') {
+          if (clientType) {
+            return;
+          }
 
-  ws.on('message', (data: Buffer) => {
-    try {
-      const message = JSON.parse(data.toString());
+          if (message.client === 'extension') {
+            if (!extensionId) {
+              reject(ws, 'Extension clients must connect from an extension origin');
+              return;
+            }
+            const authenticated = tokensMatch(token, message.token);
+            if ((requireExtensionToken || message.token !== undefined) && !authenticated) {
+              reject(ws, message.token === undefined
+                ? 'Unauthorized: the bridge token is required, set config.bridge.token in the extension storage'
+                : 'Unauthorized: invalid bridge token');
+              return;
+            }
 
-      // First message identifies the client
-      if (message.type === 'hello') {
-        if (message.client === 'extension') {
-          clientType = 'extension';
-          extensionClients.add(ws);
-          console.error(`[Bridge] Extension client registered`);
-          ws.send(JSON.stringify({ type: 'hello', status: 'connected' }));
+            // Older extensions do not send an identity: give them one for this connection
+            const identity: BrowserIdentity = message.browser?.id
+              ? message.browser
+              : { id: randomUUID(), name: extensionId, browser: 'Unknown' };
+
+            // A reconnecting browser replaces its previous connection, but only a client
+            // holding the token may take over an identity whose connection is still open
+            const previous = this.extensionClients.get(identity.id);
+            if (previous && previous.ws.readyState === 1 && !authenticated) { // WebSocket.OPEN
+              reject(ws, `Browser "${identity.id}" is already connected`);
+              return;
+            }
+
+            clearTimeout(handshakeTimer);
+            clientType = 'extension';
+            browserId = identity.id;
+
+            this.extensionClients.set(identity.id, {
+              ws,
+              identity,
+              extensionId,
+              tools: Array.isArray(message.tools) ? message.tools : undefined,
+              connectedAt: new Date(),
+            });
+            previous?.ws.close(1000, 'Replaced by new connection');
+
+            console.error(`[Bridge] Extension client registered: ${identity.name} (${identity.id})`);
+            ws.send(JSON.stringify({ type: 'hello', status: 'connected', browserId: identity.id }));
+            this.sendCapabilities();
+            return;
+          } else if (message.client === 'mcp-server') {
+            if (!tokensMatch(token, message.token)) {
+              reject(ws, 'Unauthorized: invalid bridge token');
+              return;
+            }
+
+            clearTimeout(handshakeTimer);
+            clientType = 'mcp-server';
+            sessionId = randomUUID();
+            this.mcpSessions.set(sessionId, ws);
+            console.error(`[Bridge] MCP server client registered, session ${sessionId} (${this.mcpSessions.size} active)`);
+            ws.send(JSON.stringify({ type: 'hello', status: 'connected', sessionId }));
+            if (this.extensionClients.size > 0) {
+              this.sendCapabilities(ws);
+            }
+            return;
+          }
+
+          reject(ws, `Unknown client type: ${message.client}`);
           return;
-        } else if (message.client === 'mcp-server') {
-          clientType = 'mcp-server';
-          mcpServerClient = ws;
-          console.error(`[Bridge] MCP server client registered`);
-          ws.send(JSON.stringify({ type: 'hello', status: 'connected' }));
+        }
+
+        if (!clientType) {
+          reject(ws, 'Not authenticated: send hello with a valid token first');
           return;
         }
-      }
 
-      // Handle tool_call from MCP server -> forward to extension
-      if (message.type === 'tool_call' && clientType === 'mcp-server') {
-        console.error(`[Bridge] Forwarding tool_call to extension:`, message.tool);
-        let sent = false;
-        for (const client of extensionClients) {
-          if (client.readyState === 1) { // WebSocket.OPEN
+        // Handle tool_call from MCP server -> forward to extension
+        if (message.type === 'tool_call' && clientType === 'mcp-server' && sessionId) {
+          const owner = this.pendingCalls.get(message.id)?.sessionId;
+          if (owner && owner !== sessionId) {
+            ws.send(JSON.stringify({
+              type: 'response',
+              id: message.id,
+              error: `Request ID ${message.id} is already in use`,
+              code: 'INVALID_INPUT',
+            }));
+            return;
+          }
+
+          const selected = this.selectBrowser(sessionId, message.browserId);
+          if ('error' in selected || selected.ws.readyState !== 1) { // WebSocket.OPEN
+            const failure = 'error' in selected
+              ? selected
+              : { error: 'Browser connection is closing', code: 'BRIDGE_NOT_CONNECTED' };
+            console.error(`[Bridge] Cannot forward tool_call ${message.tool}: ${failure.error}`);
+            ws.send(JSON.stringify({ type: 'response', id: message.id, ...failure }));
+            return;
+          }
+
+          console.error(`[Bridge] Forwarding tool_call to ${selected.identity.name}:`, message.tool, `(session ${sessionId})`);
+          this.pendingCalls.set(message.id, { sessionId, browserId: selected.identity.id });
+          selected.ws.send(JSON.stringify({ ...message, sessionId }));
+          return;
+        }
+
+        // Handle list_browsers from MCP server -> answer directly
+        if (message.type === 'list_browsers' && clientType === 'mcp-server' && sessionId) {
+          ws.send(JSON.stringify({ type: 'response', id: message.id, data: this.listBrowsers(sessionId) }));
+          return;
+        }
+
+        // Handle response from extension -> route to the MCP session that made the call
+        if (message.type === 'response' && clientType === 'extension') {
+          const pending = this.pendingCalls.get(message.id);
+          // Only the browser the call was forwarded to may answer it
+          if (pending && pending.browserId !== browserId) {
+            console.error(`[Bridge] Dropping response from ${browserId} to a call sent to ${pending.browserId}, id:`, message.id);
+            return;
+          }
+          const target = pending?.sessionId;
+          const client = target ? this.mcpSessions.get(target) : undefined;
+          this.pendingCalls.delete(message.id);
+
+          if (client && client.readyState === 1) {
+            console.error(`[Bridge] Forwarding response to session ${target}, id:`, message.id);
             client.send(JSON.stringify(message));
-            sent = true;
+          } else {
+            console.error(`[Bridge] No MCP session waiting for response, id:`, message.id);
           }
+          return;
         }
-        if (!sent) {
-          console.error(`[Bridge] No extension clients available to forward tool_call`);
+
+        // Handle event from extension -> broadcast to all MCP sessions
+        if (message.type === 'event' && clientType === 'extension' && browserId) {
+          const event = JSON.stringify({ ...message, browserId });
+          for (const client of this.mcpSessions.values()) {
+            if (client.readyState === 1) {
+              client.send(event);
+            }
+          }
+          return;
         }
-        return;
+
+        console.error(`[Bridge] Received message:`, message);
+      } catch (error) {
+        console.error(`[Bridge] Error parsing message:`, error);
       }
+    });
+
+    ws.on('close', () => {
+      clearTimeout(handshakeTimer);
+      if (clientType === 'extension' && browserId && this.extensionClients.get(browserId)?.ws === ws) {
+        this.extensionClients.delete(browserId);
+        console.error(`[Bridge] Extension client disconnected: ${browserId}`);
 
-      // Handle response from extension -> forward to MCP server
-      if (message.type === 'response' && clientType === 'extension') {
-        console.error(`[Bridge] Forwarding response to MCP server, id:`, message.id);
-        if (mcpServerClient && mcpServerClient.readyState === 1) {
-          mcpServerClient.send(JSON.stringify(message));
-        } else {
-          console.error(`[Bridge] No MCP server client to forward response to`);
+        // Fail calls that were running in this browser instead of letting them time out
+        for (const [id, pending] of this.pendingCalls) {
+          if (pending.browserId === browserId) {
+            this.pendingCalls.delete(id);
+            this.mcpSessions.get(pending.sessionId)?.send(JSON.stringify({
+              type: 'response',
+              id,
+              error: 'Browser disconnected while the tool call was running',
+              code: 'BRIDGE_NOT_CONNECTED',
+            }));
+          }
         }
-        return;
+        this.sendCapabilities();
+      } else if (clientType === 'mcp-server' && sessionId) {
+        this.mcpSessions.delete(sessionId);
+        for (const [id, pending] of this.pendingCalls) {
+          if (pending.sessionId === sessionId) {
+            this.pendingCalls.delete(id);
+          }
+        }
+        this.sessionBrowsers.delete(sessionId);
+        this.sendSessionClosed(sessionId);
+        console.error(`[Bridge] MCP server client disconnected, session ${sessionId}`);
       }
+      console.error(`[Bridge] Client disconnected: ${clientIp}`);
+    });
 
-      console.error(`[Bridge] Received message:`, message);
-    } catch (error) {
-      console.error(`[Bridge] Error parsing message:`, error);
-    }
-  });
-
-  ws.on('close', () => {
-    if (clientType === 'extension') {
-      extensionClients.delete(ws);
-      console.error(`[Bridge] Extension client disconnected`);
-    } else if (clientType === 'mcp-server') {
-      mcpServerClient = null;
-      console.error(`[Bridge] MCP server client disconnected`);
-    }
-    console.error(`[Bridge] Client disconnected: ${clientIp}`);
-  });
-
-  ws.on('error', (error) => {
-    console.error(`[Bridge] WebSocket error:`, error);
-  });
-});
-
-// Keep the process running
-console.error(`[Bridge] Bridge server is running. Press Ctrl+C to stop.`);
-
-// Handle shutdown gracefully
-process.on('SIGINT', () => {
-  console.error(`[Bridge] Shutting down...`);
-  wss.close(() => {
-    process.exit(0);
-  });
-});
+    ws.on('error', (error) => {
+      console.error(`[Bridge] WebSocket error:`, error);
+    });
+  }
+}
+
+/**
+ * Start a bridge server (embedded in another process or standalone)
+ */
+export async function startBridge(options: BridgeOptions): Promise<BridgeServer> {
+  const bridge = new BridgeServer(options);
+  await bridge.start();
+  return bridge;
+}
+
+/**
+ * Whether an error means another bridge already listens on the port
+ */
+export function isAddressInUse(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'EADDRINUSE';
+}
+
+// Standalone mode: node bridge.ts [port]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = process.argv[2] ? parseInt(process.argv[2], 10) : DEFAULT_BRIDGE_PORT;
+
+  startBridge(getBridgeOptionsFromEnv(port))
+    .then((bridge) => {
+      console.error(`[Bridge] Bridge token: ${TOKEN_FILE}${process.env.MCP_BRIDGE_TOKEN ? ' (overridden by MCP_BRIDGE_TOKEN)' : ''}`);
+      console.error(`[Bridge] Waiting for clients to connect...`);
+
+      // Keep the process running
+      console.error(`[Bridge] Bridge server is running. Press Ctrl+C to stop.`);
+
+      // Handle shutdown gracefully
+      process.on('SIGINT', () => {
+        console.error(`[Bridge] Shutting down...`);
+        bridge.close().then(() => {
+          process.exit(0);
+        });
+      });
+    })
+    .catch((error) => {
+      if (isAddressInUse(error)) {
+        console.error(`[Bridge] Port ${port} is already in use (is another bridge or MCP server running?)`);
+      } else {
+        console.error(`[Bridge] Failed to start:`, error);
+      }
+      process.exit(1);
+    });
+}
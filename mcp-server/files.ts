@@ -0,0 +1,124 @@
+/**
+ * Local files for upload_file
+ *
+ * The extension cannot read the disk, so files given by `path` are read here
+ * and sent through the bridge as base64 `content`, with the file's name.
+ * Only files inside the directories named by MCP_UPLOAD_ROOT (separated like
+ * PATH) can be read; without it, `path` is refused and files must be sent as
+ * `content`.
+ */
+
+import { readFile, realpath, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { basename, delimiter, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import type { JsonValue } from '../types';
+import { AppError, ErrorCode } from '../src/core/errors';
+import { MAX_UPLOAD_BYTES } from '../src/core/files';
+
+type JsonObject = { [key: string]: JsonValue };
+
+/**
+ * Directories uploads may be read from, from MCP_UPLOAD_ROOT
+ */
+export function getUploadRoots(): string[] {
+  return (process.env.MCP_UPLOAD_ROOT || '')
+    .split(delimiter)
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map(expandHome);
+}
+
+/**
+ * Replace `path` entries of upload_file calls (also inside run_steps) with file content
+ */
+export async function readUploadPaths(toolName: string, params: JsonObject, roots = getUploadRoots()): Promise<JsonObject> {
+  if (toolName === 'upload_file') {
+    return await readFiles(params, roots);
+  }
+
+  if (toolName === 'run_steps' && Array.isArray(params.steps)) {
+    const steps = await Promise.all(params.steps.map(async (step) => {
+      if (isJsonObject(step) && step.tool === 'upload_file' && isJsonObject(step.params)) {
+        return { ...step, params: await readFiles(step.params, roots) };
+      }
+      return step;
+    }));
+    return { ...params, steps };
+  }
+
+  return params;
+}
+
+async function readFiles(params: JsonObject, roots: string[]): Promise<JsonObject> {
+  if (!Array.isArray(params.files) || !params.files.some((file) => isJsonObject(file) && typeof file.path === 'string')) {
+    return params;
+  }
+
+  if (roots.length === 0) {
+    throw new AppError(
+      ErrorCode.INVALID_INPUT,
+      'Reading files by "path" is disabled: set MCP_UPLOAD_ROOT to the directories uploads may come from, or send the file as base64 "content"'
+    );
+  }
+  const realRoots = await Promise.all(roots.map((root) => realpath(root).catch(() => null)));
+
+  let totalBytes = 0;
+  const files: JsonValue[] = [];
+  for (const file of params.files) {
+    if (!isJsonObject(file) || typeof file.path !== 'string') {
+      files.push(file);
+      continue;
+    }
+
+    const { path, ...rest } = file;
+    let content: Buffer;
+    let fullPath: string;
+    try {
+      // Relative paths are relative to the first upload root. Symlinks are
+      // resolved before the check, so a link cannot point outside the roots.
+      fullPath = await realpath(resolve(roots[0], expandHome(path)));
+      if (!realRoots.some((root) => root !== null && isInside(root, fullPath))) {
+        throw new AppError(ErrorCode.INVALID_INPUT, `Cannot read "${path}": it is outside MCP_UPLOAD_ROOT`);
+      }
+
+      // Checked before reading so an oversized file is not loaded into memory
+      const stats = await stat(fullPath);
+      if (!stats.isFile()) {
+        throw new AppError(ErrorCode.INVALID_INPUT, `Cannot read "${path}": it is not a file`);
+      }
+      totalBytes += stats.size;
+      if (totalBytes > MAX_UPLOAD_BYTES) {
+        throw new AppError(ErrorCode.INVALID_INPUT, `Files exceed the ${MAX_UPLOAD_BYTES} byte upload limit at "${path}"`);
+      }
+      content = await readFile(fullPath);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        ErrorCode.INVALID_INPUT,
+        `Cannot read file "${path}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    files.push({ ...rest, name: rest.name ?? basename(path), content: content.toString('base64') });
+  }
+
+  return { ...params, files };
+}
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== '' && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+function expandHome(path: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return path;
+}
+
+function isJsonObject(value: JsonValue | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,221 @@
+/**
+ * HTTP Transport - serve MCP over Streamable HTTP, with the legacy SSE transport as fallback
+ *
+ * Endpoints:
+ *   POST/GET/DELETE /mcp   Streamable HTTP (mcp-session-id header)
+ *   GET /sse               Legacy SSE stream
+ *   POST /messages         Legacy SSE messages (?sessionId=...)
+ *
+ * Every MCP client gets its own McpSession, removed when the client
+ * disconnects or ends the session. Every request must carry the bridge token
+ * as `Authorization: Bearer <token>`.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'node:http';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { MAX_UPLOAD_BYTES } from '../src/core/files';
+import { tokensMatch } from './auth';
+import type { McpSession } from './session';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Bearer token required on every request */
+  token: string;
+  createSession: () => McpSession;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  session: McpSession;
+}
+
+// Largest request body accepted: an upload_file call at the upload limit, base64
+// encoded, plus room for the JSON-RPC envelope and other arguments
+const MAX_BODY_BYTES = Math.ceil(MAX_UPLOAD_BYTES / 3) * 4 + 1024 * 1024;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public rpcCode = -32000) {
+    super(message);
+  }
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: invalid JSON', -32700);
+  }
+}
+
+/**
+ * Check the request's bearer token
+ */
+function authorize(req: IncomingMessage, token: string) {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match || !tokensMatch(token, match[1].trim())) {
+    throw new HttpError(401, 'Unauthorized: send the bridge token as "Authorization: Bearer <token>"');
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code = -32000) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(status === 401 && { 'WWW-Authenticate': 'Bearer' }),
+  });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Start the HTTP server for MCP clients
+ */
+export function startHttpTransport(options: HttpTransportOptions): Promise<{ server: HttpServer; close: () => Promise<void> }> {
+  const sessions = new Map<string, HttpSession>();
+
+  // Guard against DNS rebinding when only serving this machine
+  const allowedHosts = LOOPBACK_HOSTS.includes(options.host)
+    ? LOOPBACK_HOSTS.flatMap((host) => [host, `${host}:${options.port}`, `[${host}]:${options.port}`])
+    : undefined;
+  const transportSecurity = allowedHosts
+    ? { enableDnsRebindingProtection: true, allowedHosts }
+    : {};
+
+  const removeSession = (sessionId: string) => {
+    const entry = sessions.get(sessionId);
+    if (!entry) {
+      return;
+    }
+    sessions.delete(sessionId);
+    console.error(`[MCP] Session closed: ${sessionId} (${sessions.size} active)`);
+    entry.session.close().catch((error) => {
+      console.error('[MCP] Failed to close session:', error);
+    });
+  };
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const entry = sessions.get(sessionId);
+      if (!entry || !(entry.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(404, 'Session not found', -32001);
+      }
+      await entry.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpError(400, 'Bad Request: No valid session ID provided');
+    }
+
+    const session = options.createSession();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, session });
+        console.error(`[MCP] HTTP session started: ${id} (${sessions.size} active)`);
+      },
+      ...transportSecurity,
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        removeSession(transport.sessionId);
+      }
+    };
+
+    await session.connect(transport);
+    await transport.handleRequest(req, res, body);
+
+    // Initialization was rejected (e.g. invalid Host header): drop the session
+    if (!transport.sessionId) {
+      await session.close();
+    }
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      const session = options.createSession();
+      const transport = new SSEServerTransport('/messages', res, transportSecurity);
+      sessions.set(transport.sessionId, { transport, session });
+      console.error(`[MCP] SSE session started: ${transport.sessionId} (${sessions.size} active)`);
+
+      transport.onclose = () => removeSession(transport.sessionId);
+      res.on('close', () => removeSession(transport.sessionId));
+
+      await session.connect(transport);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      const entry = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!entry || !(entry.transport instanceof SSEServerTransport)) {
+        throw new HttpError(404, 'Session not found', -32001);
+      }
+      await entry.transport.handlePostMessage(req, res, await readJsonBody(req));
+      return;
+    }
+
+    throw new HttpError(404, 'Not found');
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const handler = Promise.resolve().then(() => {
+      authorize(req, options.token);
+      return url.pathname === '/mcp'
+        ? handleStreamableHttp(req, res)
+        : handleSse(req, res, url);
+    });
+
+    handler.catch((error) => {
+      if (error instanceof HttpError) {
+        sendJsonRpcError(res, error.status, error.message, error.rpcCode);
+        return;
+      }
+      console.error('[MCP] HTTP request failed:', error);
+      sendJsonRpcError(res, 500, 'Internal server error', -32603);
+    });
+  });
+
+  const close = async () => {
+    for (const sessionId of Array.from(sessions.keys())) {
+      removeSession(sessionId);
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  };
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      console.error(`[MCP] MCP in Browser server listening on http://${options.host}:${options.port}/mcp (SSE: /sse)`);
+      if (!allowedHosts) {
+        console.error('[MCP] Warning: listening beyond this machine over plain HTTP; the bearer token can be read by anyone on the network path');
+      }
+      resolve({ server, close });
+    });
+  });
+}
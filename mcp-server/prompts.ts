@@ -0,0 +1,163 @@
+/**
+ * MCP Prompts - ready-made instructions for common browser workflows
+ *
+ * Each prompt expands to a user message telling the model which tools to use,
+ * so MCP clients can offer the workflows as one-click entry points.
+ */
+
+import { ErrorCode, McpError, type GetPromptResult, type Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+interface PromptDefinition extends Prompt {
+  build: (args: Record<string, string>) => string;
+}
+
+const TAB_ARGUMENT = {
+  name: 'tabId',
+  description: 'Tab to work in (default: the active tab)',
+  required: false,
+};
+
+/**
+ * Describe the target tab for the tool calls
+ */
+function inTab(args: Record<string, string>): string {
+  return args.tabId ? `in tab ${args.tabId} (pass \`tabId: ${args.tabId}\` to every tool)` : 'in the active tab';
+}
+
+const PROMPTS: Record<string, PromptDefinition> = {
+  fill_form: {
+    name: 'fill_form',
+    title: 'Fill form from JSON',
+    description: 'Fill a form on the page with values from a JSON object',
+    arguments: [
+      { name: 'data', description: 'JSON object mapping field labels or names to values', required: true },
+      { name: 'selector', description: 'CSS selector of the form (default: the only or most prominent form)', required: false },
+      TAB_ARGUMENT,
+    ],
+    build: (args) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(args.data);
+      } catch {
+        throw new McpError(ErrorCode.InvalidParams, 'Argument "data" must be valid JSON');
+      }
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new McpError(ErrorCode.InvalidParams, 'Argument "data" must be a JSON object');
+      }
+
+      return [
+        `Fill the form${args.selector ? ` matching \`${args.selector}\`` : ''} ${inTab(args)} with this data:`,
+        '',
+        '```json',
+        JSON.stringify(data, null, 2),
+        '```',
+        '',
+        '1. Call `get_form_values` to list the form fields and their current values.',
+        '2. Match every key to a field by label, name, id or placeholder. Do not guess when a key matches no field; report it instead.',
+        '3. Use `fill` for text fields, `select_option` for dropdowns and `click` for checkboxes and radio buttons. Prefer `locator` with `type: "label"` when the field has a label.',
+        '4. Call `get_form_values` again and check that every value stuck.',
+        '5. Do not submit the form. Summarise what was filled and list any keys that could not be matched.',
+      ].join('\n');
+    },
+  },
+
+  extract_table: {
+    name: 'extract_table',
+    title: 'Extract table data',
+    description: 'Extract the data of a table on the page as JSON rows',
+    arguments: [
+      { name: 'selector', description: 'CSS selector of the table (default: the largest data table)', required: false },
+      { name: 'format', description: 'Output format: "json" (default) or "csv"', required: false },
+      TAB_ARGUMENT,
+    ],
+    build: (args) => {
+      const format = args.format?.toLowerCase() === 'csv' ? 'CSV' : 'a JSON array with one object per row, keyed by column header';
+      const table = args.selector ? `\`${args.selector}\`` : 'the `table` elements';
+
+      return [
+        `Extract table data ${inTab(args)}.`,
+        '',
+        `1. Call \`query_selector_all\` for ${table} to find the table${args.selector ? '' : '; pick the one with the most data rows'}.`,
+        '2. Call `get_page_content` with `format: "markdown"` and the table selector to read its rows and cells.',
+        '3. Use the first row (or the `th` cells) as column headers. Keep cell text as shown; do not invent values for empty cells.',
+        `4. Return the rows as ${format}, and nothing else.`,
+      ].join('\n');
+    },
+  },
+
+  log_in: {
+    name: 'log_in',
+    title: 'Log in to a site',
+    description: 'Open a site and log in with the given username',
+    arguments: [
+      { name: 'url', description: 'Login page or site URL', required: true },
+      { name: 'username', description: 'Username or email address', required: true },
+    ],
+    build: (args) => [
+      `Log in to ${args.url} as \`${args.username}\`.`,
+      '',
+      `1. Call \`navigate\` with \`url: "${args.url}"\`. If the page is not a login form, find and \`click\` the "Log in" / "Sign in" link.`,
+      '2. Call `snapshot` with `interactiveOnly: true` to find the username/email and password fields.',
+      '3. `fill` the username field. Some sites ask for the password on a second step: submit and `wait_for_visible` the password field.',
+      // No password argument: it would be written into the transcript along with this text
+      '4. Ask the user for the password, then `fill` it and submit with `click` on the submit button or `press_key` Enter.',
+      '5. Check the result with `snapshot`: report success, or the error message shown by the site (e.g. wrong password, CAPTCHA, two-factor code).',
+      '',
+      'Never repeat the password in your replies.',
+    ].join('\n'),
+  },
+
+  summarize_tab: {
+    name: 'summarize_tab',
+    title: 'Summarise this tab',
+    description: 'Summarise the content of a tab',
+    arguments: [
+      TAB_ARGUMENT,
+      { name: 'focus', description: 'What the summary should focus on (e.g. "pricing", "action items")', required: false },
+    ],
+    build: (args) => [
+      `Summarise the page ${inTab(args)}.`,
+      '',
+      '1. Call `get_page_content` with `format: "markdown"` to read the page.',
+      `2. Write a short summary: a one-sentence overview, then the key points as bullets${args.focus ? `, focusing on ${args.focus}` : ''}.`,
+      '3. Mention the page title and URL at the top.',
+    ].join('\n'),
+  },
+};
+
+/**
+ * List prompt metadata
+ */
+export function listPrompts(): Prompt[] {
+  return Object.values(PROMPTS).map(({ build: _build, ...prompt }) => prompt);
+}
+
+/**
+ * Expand a prompt with its arguments
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = PROMPTS[name];
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  for (const argument of prompt.arguments ?? []) {
+    if (argument.required && !args[argument.name]) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${argument.name}`);
+    }
+  }
+
+  if (args.tabId && !/^\d+$/.test(args.tabId)) {
+    throw new McpError(ErrorCode.InvalidParams, 'Argument "tabId" must be a tab ID number');
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.build(args) },
+      },
+    ],
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * MCP Resources - browser state addressable by URI
+ *
+ *   browser://tabs                       Open tabs (JSON)
+ *   browser://logs                       Recent extension logs (JSON)
+ *   browser://tab/{tabId}/content        Page content of a tab (Markdown)
+ *   browser://tab/{tabId}/screenshot     Screenshot of a tab (PNG)
+ */
+
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export const TABS_URI = 'browser://tabs';
+export const LOGS_URI = 'browser://logs';
+
+export type ResourceTarget =
+  | { kind: 'tabs' }
+  | { kind: 'logs' }
+  | { kind: 'tab_content'; tabId: number }
+  | { kind: 'tab_screenshot'; tabId: number };
+
+export const STATIC_RESOURCES: Resource[] = [
+  {
+    uri: TABS_URI,
+    name: 'Open tabs',
+    description: 'All open tabs with their IDs, URLs and titles',
+    mimeType: 'application/json',
+  },
+  {
+    uri: LOGS_URI,
+    name: 'Extension logs',
+    description: 'The 100 most recent log entries of the browser extension',
+    mimeType: 'application/json',
+  },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'browser://tab/{tabId}/content',
+    name: 'Tab content',
+    description: 'Page content of a tab as Markdown',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'browser://tab/{tabId}/screenshot',
+    name: 'Tab screenshot',
+    description: 'Screenshot of the visible part of a tab (activates the tab)',
+    mimeType: 'image/png',
+  },
+];
+
+export function tabContentUri(tabId: number): string {
+  return `browser://tab/${tabId}/content`;
+}
+
+export function tabScreenshotUri(tabId: number): string {
+  return `browser://tab/${tabId}/screenshot`;
+}
+
+/**
+ * Resources describing one tab
+ */
+export function getTabResources(tab: { id: number; title: string; url: string }): Resource[] {
+  const label = tab.title || tab.url || `Tab ${tab.id}`;
+  return [
+    {
+      uri: tabContentUri(tab.id),
+      name: `Content: ${label}`,
+      description: tab.url,
+      mimeType: 'text/markdown',
+    },
+    {
+      uri: tabScreenshotUri(tab.id),
+      name: `Screenshot: ${label}`,
+      description: tab.url,
+      mimeType: 'image/png',
+    },
+  ];
+}
+
+/**
+ * Parse a resource URI, or return null if it is not one of ours
+ */
+export function parseResourceUri(uri: string): ResourceTarget | null {
+  if (uri === TABS_URI) {
+    return { kind: 'tabs' };
+  }
+  if (uri === LOGS_URI) {
+    return { kind: 'logs' };
+  }
+
+  const match = /^browser:\/\/tab\/(\d+)\/(content|screenshot)$/.exec(uri);
+  if (!match) {
+    return null;
+  }
+
+  const tabId = Number(match[1]);
+  return match[2] === 'content'
+    ? { kind: 'tab_content', tabId }
+    : { kind: 'tab_screenshot', tabId };
+}
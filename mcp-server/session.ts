@@ -0,0 +1,414 @@
+/**
+ * MCP Session
+ *
+ * One MCP server instance plus its own bridge connection. The stdio transport
+ * uses a single session; the HTTP transport creates one per client, so each
+ * client gets its own bridge session (tab ownership, browser choice).
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode as McpErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type ReadResourceResult,
+  type Resource,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { BridgeClient, createBridgeClient } from '../shared/bridge/client';
+import type { BridgeMessage } from '../types/bridge';
+import type { JsonValue } from '../types';
+import { browserIdSchema, getBridgeToolSpecs, getToolSpecs, toMcpTool } from '../shared/tools';
+import { AppError, handleError, isAppError } from '../src/core/errors';
+import { getDefaultConfig } from '../types/config';
+import {
+  getTabResources,
+  parseResourceUri,
+  RESOURCE_TEMPLATES,
+  STATIC_RESOURCES,
+  TABS_URI,
+  tabContentUri,
+  tabScreenshotUri,
+} from './resources';
+import { getPrompt, listPrompts } from './prompts';
+import { readUploadPaths } from './files';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+// Tools that may run longer than the default bridge request timeout
+const TOOL_TIMEOUTS: Record<string, number> = {
+  navigate: 60000,
+  go_back: 60000,
+  go_forward: 60000,
+  new_tab: 60000,
+  upload_file: 60000,
+  run_steps: 5 * 60 * 1000,
+};
+
+// Extra time on top of a tool's own `timeout` argument for the round trip
+const REQUEST_TIMEOUT_MARGIN_MS = 5000;
+
+export interface McpSessionOptions {
+  /** Shared bridge token */
+  token: string;
+  /** Called when the bridge connection drops (e.g. to take over hosting the bridge) */
+  onBridgeDisconnected?: () => void;
+}
+
+export class McpSession {
+  readonly server: Server;
+  private bridgeClient: BridgeClient;
+
+  // Tools reported by the extension at handshake time (undefined = not yet known)
+  private supportedTools: Set<string> | undefined;
+  // Resource URIs the MCP client subscribed to
+  private subscriptions = new Set<string>();
+  private closed = false;
+
+  constructor(private options: McpSessionOptions) {
+    this.bridgeClient = createBridgeClient('mcp-server', {
+      ...getDefaultConfig().bridge,
+      token: options.token,
+    });
+    this.server = this.createServer();
+    this.setupBridgeClient();
+  }
+
+  /**
+   * Connect to the bridge and serve MCP over the given transport
+   */
+  async connect(transport: Transport): Promise<void> {
+    this.bridgeClient.connect();
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Close the MCP server and leave the bridge
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.bridgeClient.disconnect();
+    this.bridgeClient.clearQueue();
+    await this.server.close();
+  }
+
+  private setupBridgeClient() {
+    this.bridgeClient.setMessageHandler(async (message: BridgeMessage) => {
+      if (message.type === 'capabilities') {
+        this.supportedTools = message.tools ? new Set(message.tools) : undefined;
+        console.error(`[MCP] Extension supports ${message.tools?.length ?? 'all'} tools`);
+        this.server.sendToolListChanged().catch(() => {
+          // Not connected to an MCP client yet; it will call tools/list itself
+        });
+      } else if (message.type === 'event') {
+        this.handleBrowserEvent(message);
+      }
+    });
+
+    this.bridgeClient.onConnected(() => {
+      console.error('[MCP] Connected to bridge');
+    });
+
+    this.bridgeClient.onDisconnected(() => {
+      console.error('[MCP] Disconnected from bridge');
+      this.options.onBridgeDisconnected?.();
+    });
+  }
+
+  private createServer(): Server {
+    const server = new Server(
+      {
+        name: 'mcp-in-browser-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+        },
+      }
+    );
+
+    // Handle tool listing
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: this.listTools(),
+      };
+    });
+
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        if (name === 'list_browsers') {
+          const browsers = await this.bridgeClient.listBrowsers();
+          return {
+            content: [{ type: 'text', text: JSON.stringify(browsers, null, 2) }],
+          };
+        }
+
+        const { browserId, ...params } = (args || {}) as Record<string, JsonValue>;
+        const result = await this.sendExtensionMessage(
+          name,
+          await readUploadPaths(name, params),
+          browserIdSchema.parse(browserId)
+        );
+
+        return {
+          content: toToolContent(result),
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(handleError(error)),
+            },
+          ],
+          isError: true,
+        };
+      }
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: await this.listResources(),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: RESOURCE_TEMPLATES,
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return this.readResource(request.params.uri);
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: listPrompts(),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return getPrompt(request.params.name, request.params.arguments);
+    });
+
+    return server;
+  }
+
+  /**
+   * List static resources plus content and screenshot resources for every open tab
+   */
+  private async listResources(): Promise<Resource[]> {
+    try {
+      const tabs = await this.bridgeClient.sendRequest<Array<{ id: number; title: string; url: string }>>(
+        'list_tabs',
+        {}
+      );
+      return [...STATIC_RESOURCES, ...tabs.flatMap(getTabResources)];
+    } catch {
+      // No browser connected: only the static resources can be listed
+      return STATIC_RESOURCES;
+    }
+  }
+
+  private async readResource(uri: string): Promise<ReadResourceResult> {
+    const target = parseResourceUri(uri);
+    if (!target) {
+      throw new McpError(McpErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    switch (target.kind) {
+      case 'tabs': {
+        const tabs = await this.sendExtensionMessage('list_tabs', {});
+        return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(tabs, null, 2) }] };
+      }
+      case 'logs': {
+        const logs = await this.sendExtensionMessage('get_logs', {});
+        return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(logs, null, 2) }] };
+      }
+      case 'tab_content': {
+        const result = await this.sendExtensionMessage('get_page_content', { tabId: target.tabId, format: 'markdown' });
+        const content = isJsonObject(result) && isJsonObject(result.content) ? result.content : undefined;
+        if (!content || typeof content.markdown !== 'string') {
+          throw new McpError(McpErrorCode.InternalError, `Failed to read content of tab ${target.tabId}`);
+        }
+        return { contents: [{ uri, mimeType: 'text/markdown', text: content.markdown }] };
+      }
+      case 'tab_screenshot': {
+        const result = await this.sendExtensionMessage('screenshot', { tabId: target.tabId });
+        const dataUrl = isJsonObject(result) && isJsonObject(result.screenshot) ? result.screenshot.dataUrl : undefined;
+        const match = typeof dataUrl === 'string' ? /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl) : null;
+        if (!match) {
+          const reason = isJsonObject(result) && typeof result.error === 'string' ? `: ${result.error}` : '';
+          throw new McpError(McpErrorCode.InternalError, `Failed to capture tab ${target.tabId}${reason}`);
+        }
+        return { contents: [{ uri, mimeType: match[1], blob: match[2] }] };
+      }
+    }
+  }
+
+  /**
+   * Turn browser events into resource notifications for the MCP client
+   */
+  private handleBrowserEvent(message: BridgeMessage) {
+    const updated = new Set<string>();
+
+    if (message.event === 'tabs_changed') {
+      this.server.sendResourceListChanged().catch(() => {
+        // Not connected to an MCP client yet
+      });
+      updated.add(TABS_URI);
+    } else if (message.event === 'tab_updated') {
+      const data = message.data ?? undefined;
+      const tabId = isJsonObject(data) ? data.tabId : undefined;
+      updated.add(TABS_URI);
+      if (typeof tabId === 'number') {
+        updated.add(tabContentUri(tabId));
+        updated.add(tabScreenshotUri(tabId));
+      }
+    }
+
+    for (const uri of updated) {
+      if (this.subscriptions.has(uri)) {
+        this.server.sendResourceUpdated({ uri }).catch(() => {
+          // The MCP client went away
+        });
+      }
+    }
+  }
+
+  /**
+   * List tools from the shared registry, narrowed to what the extensions support
+   */
+  private listTools(): Tool[] {
+    const extensionTools = getToolSpecs()
+      .filter((spec) => !this.supportedTools || this.supportedTools.has(spec.name))
+      .map((spec) => toMcpTool(spec, { browserId: browserIdSchema.toJSONSchema() }) as Tool);
+
+    return [...getBridgeToolSpecs().map((spec) => toMcpTool(spec) as Tool), ...extensionTools];
+  }
+
+  /**
+   * Send a message to the Chrome extension via the WebSocket bridge
+   */
+  private async sendExtensionMessage(
+    toolName: string,
+    params: Record<string, JsonValue>,
+    browserId?: string
+  ): Promise<JsonValue> {
+    try {
+      const timeout = Math.max(
+        TOOL_TIMEOUTS[toolName] ?? DEFAULT_REQUEST_TIMEOUT_MS,
+        typeof params.timeout === 'number' ? params.timeout + REQUEST_TIMEOUT_MARGIN_MS : 0
+      );
+      return await this.bridgeClient.sendRequest<JsonValue>(toolName, params, timeout, browserId);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+
+      // Check if it's likely a connection error
+      const connectionKeywords = [
+        'Bridge not connected',
+        'No browser extension connected',
+        'Receiving end does not exist',
+        'Could not establish connection',
+        'Connection lost',
+        'Request timeout',
+        'Connection closed'
+      ];
+
+      const isConnectionError = connectionKeywords.some(keyword => errorMsg.includes(keyword));
+
+      if (isConnectionError) {
+        throw new Error(
+          `Bridge connection error: ${errorMsg}. Please ensure the browser extension is installed and connected to the bridge.`
+        );
+      } else {
+        // For runtime errors (like Element not found), return the message as-is or with a minimal prefix
+        // We explicitly avoid adding the "Please ensure..." message for these errors
+        if (isAppError(error)) {
+          throw new AppError(error.code, `Tool execution error: ${errorMsg}`, error.details);
+        }
+        throw new Error(`Tool execution error: ${errorMsg}`);
+      }
+    }
+  }
+}
+
+/**
+ * Map a tool result to MCP content blocks. Screenshots, at the top level or in
+ * run_steps step results, become `image` content; the JSON keeps their metadata.
+ */
+function toToolContent(result: JsonValue): CallToolResult['content'] {
+  const images: CallToolResult['content'] = [];
+
+  let text = result;
+  if (isJsonObject(result)) {
+    text = takeScreenshot(result, images);
+    if (Array.isArray(result.steps)) {
+      text.steps = result.steps.map((step) => {
+        if (!isJsonObject(step) || !isJsonObject(step.result)) {
+          return step;
+        }
+        const imageIndex = images.length;
+        const stepResult = takeScreenshot(step.result, images);
+        if (images.length > imageIndex && isJsonObject(stepResult.screenshot)) {
+          // Position of the step's image among the image blocks
+          stepResult.screenshot = { ...stepResult.screenshot, imageIndex };
+        }
+        return { ...step, result: stepResult };
+      });
+    }
+  }
+
+  return [...images, { type: 'text', text: JSON.stringify(text, null, 2) }];
+}
+
+/**
+ * Move a result's screenshot data into an image block, returning the result without it
+ */
+function takeScreenshot(result: { [key: string]: JsonValue }, images: CallToolResult['content']): { [key: string]: JsonValue } {
+  if (!isJsonObject(result.screenshot) || typeof result.screenshot.dataUrl !== 'string') {
+    return { ...result };
+  }
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(result.screenshot.dataUrl);
+  if (!match) {
+    return { ...result };
+  }
+
+  const { dataUrl: _dataUrl, ...metadata } = result.screenshot;
+  images.push({ type: 'image', data: match[2], mimeType: match[1] });
+  return { ...result, screenshot: metadata };
+}
+
+function isJsonObject(value: JsonValue | undefined): value is { [key: string]: JsonValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
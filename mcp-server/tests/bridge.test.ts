@@ -0,0 +1,235 @@
+/**
+ * Bridge authentication and routing, against a bridge on a free local port
+ */
+
+import assert from 'node:assert/strict';
+import { createServer } from 'node:net';
+import { WebSocket } from 'ws';
+import { AsyncTestUtils, type TestRunner } from '../../src/testing/helpers';
+import { startBridge, type BridgeOptions } from '../bridge';
+
+const TOKEN = 'test-token';
+const EXTENSION_ORIGIN = 'chrome-extension://abcdefghijklmnop';
+const WAIT_MS = 2000;
+
+type Message = Record<string, unknown>;
+
+/**
+ * A bridge client that records what it receives
+ */
+class TestClient {
+  private messages: Message[] = [];
+
+  private constructor(private ws: WebSocket) {
+    ws.on('message', (data: Buffer) => this.messages.push(JSON.parse(data.toString())));
+  }
+
+  /**
+   * Connect like an extension page, or like an MCP server (no origin) with `origin: null`
+   */
+  static connect(port: number, origin: string | null = EXTENSION_ORIGIN): Promise<TestClient> {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}`, origin ? { origin } : {});
+    return new Promise((resolve, reject) => {
+      ws.once('open', () => resolve(new TestClient(ws)));
+      ws.once('error', reject);
+    });
+  }
+
+  send(message: Message) {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  /**
+   * Next message received, or the next of a type (skipping the others)
+   */
+  next(type?: string): Promise<Message> {
+    return AsyncTestUtils.waitFor(() => {
+      const index = this.messages.findIndex((message) => !type || message.type === type);
+      return index === -1 ? null : this.messages.splice(index, 1)[0];
+    }, WAIT_MS, 10);
+  }
+
+  /**
+   * Whether no message of a type arrives within a short wait
+   */
+  async receivesNo(type: string): Promise<boolean> {
+    await AsyncTestUtils.delay(100);
+    return !this.messages.some((message) => message.type === type);
+  }
+
+  async closed(): Promise<void> {
+    await AsyncTestUtils.waitFor(() => this.ws.readyState === WebSocket.CLOSED, WAIT_MS, 10);
+  }
+
+  close() {
+    this.ws.close();
+  }
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+/**
+ * Run a test against a fresh bridge, closed afterwards
+ */
+async function withBridge(options: Partial<BridgeOptions>, fn: (port: number) => Promise<void>) {
+  const port = await freePort();
+  const bridge = await startBridge({
+    port,
+    host: '127.0.0.1',
+    token: TOKEN,
+    allowedExtensionIds: [],
+    requireExtensionToken: true,
+    ...options,
+  });
+  try {
+    await fn(port);
+  } finally {
+    await bridge.close();
+  }
+}
+
+function extensionHello(id: string, token?: string): Message {
+  return { type: 'hello', client: 'extension', token, browser: { id, name: id, browser: 'Chrome' }, tools: [] };
+}
+
+async function connectExtension(port: number, id: string, token: string | undefined = TOKEN): Promise<TestClient> {
+  const client = await TestClient.connect(port);
+  client.send(extensionHello(id, token));
+  assert.deepEqual(await client.next(), { type: 'hello', status: 'connected', browserId: id });
+  return client;
+}
+
+async function connectMcpServer(port: number): Promise<TestClient> {
+  const client = await TestClient.connect(port, null);
+  client.send({ type: 'hello', client: 'mcp-server', token: TOKEN });
+  const hello = await client.next('hello');
+  assert.equal(hello.status, 'connected');
+  return client;
+}
+
+export function bridgeTests(runner: TestRunner) {
+  runner.test('bridge: an MCP server with a wrong token is rejected', () => withBridge({}, async (port) => {
+    const client = await TestClient.connect(port, null);
+    client.send({ type: 'hello', client: 'mcp-server', token: 'wrong' });
+    assert.deepEqual(await client.next(), { type: 'error', error: 'Unauthorized: invalid bridge token' });
+    await client.closed();
+  }));
+
+  runner.test('bridge: an extension without the token is rejected by default', () => withBridge({}, async (port) => {
+    const client = await TestClient.connect(port);
+    client.send(extensionHello('browser-a'));
+    const error = await client.next();
+    assert.equal(error.type, 'error');
+    assert.match(String(error.error), /bridge token is required/);
+    await client.closed();
+  }));
+
+  runner.test('bridge: an extension with the token is accepted', () => withBridge({}, async (port) => {
+    const client = await connectExtension(port, 'browser-a');
+    client.close();
+  }));
+
+  runner.test('bridge: an extension with a wrong token is rejected even when the token is optional', () =>
+    withBridge({ requireExtensionToken: false }, async (port) => {
+      const client = await TestClient.connect(port);
+      client.send(extensionHello('browser-a', 'wrong'));
+      assert.deepEqual(await client.next(), { type: 'error', error: 'Unauthorized: invalid bridge token' });
+      await client.closed();
+    }));
+
+  runner.test('bridge: web pages cannot connect', () => withBridge({}, async (port) => {
+    await assert.rejects(TestClient.connect(port, 'https://example.com'), /401/);
+  }));
+
+  runner.test('bridge: only allowed extensions can connect', () =>
+    withBridge({ allowedExtensionIds: ['otherextension'] }, async (port) => {
+      await assert.rejects(TestClient.connect(port), /401/);
+    }));
+
+  runner.test('bridge: extension hellos need an extension origin', () => withBridge({}, async (port) => {
+    const client = await TestClient.connect(port, null);
+    client.send(extensionHello('browser-a', TOKEN));
+    assert.deepEqual(await client.next(), {
+      type: 'error',
+      error: 'Extension clients must connect from an extension origin',
+    });
+    await client.closed();
+  }));
+
+  runner.test('bridge: clients must say hello first', () => withBridge({}, async (port) => {
+    const client = await TestClient.connect(port, null);
+    client.send({ type: 'tool_call', id: '1', tool: 'list_tabs', params: {} });
+    assert.deepEqual(await client.next(), {
+      type: 'error',
+      error: 'Not authenticated: send hello with a valid token first',
+    });
+    await client.closed();
+  }));
+
+  runner.test('bridge: tool calls go to the browser they name', () => withBridge({}, async (port) => {
+    const browserA = await connectExtension(port, 'browser-a');
+    const browserB = await connectExtension(port, 'browser-b');
+    const session = await connectMcpServer(port);
+
+    session.send({ type: 'tool_call', id: '1', tool: 'list_tabs', params: {}, browserId: 'browser-b' });
+    const call = await browserB.next('tool_call');
+    assert.equal(call.id, '1');
+    assert.equal(await browserA.receivesNo('tool_call'), true);
+
+    browserB.send({ type: 'response', id: '1', data: [] });
+    assert.deepEqual(await session.next('response'), { type: 'response', id: '1', data: [] });
+
+    // The chosen browser stays the session's default
+    session.send({ type: 'tool_call', id: '2', tool: 'list_tabs', params: {} });
+    assert.equal((await browserB.next('tool_call')).id, '2');
+  }));
+
+  runner.test('bridge: a browser cannot answer a call sent to another', () => withBridge({}, async (port) => {
+    const browserA = await connectExtension(port, 'browser-a');
+    const browserB = await connectExtension(port, 'browser-b');
+    const session = await connectMcpServer(port);
+
+    session.send({ type: 'tool_call', id: '1', tool: 'get_content', params: {}, browserId: 'browser-a' });
+    await browserA.next('tool_call');
+
+    browserB.send({ type: 'response', id: '1', data: 'forged' });
+    assert.equal(await session.receivesNo('response'), true);
+
+    // The call is still waiting for the browser it was sent to
+    browserA.send({ type: 'response', id: '1', data: 'real' });
+    assert.deepEqual(await session.next('response'), { type: 'response', id: '1', data: 'real' });
+  }));
+
+  runner.test('bridge: a hello without the token cannot take over a connected browser', () =>
+    withBridge({ requireExtensionToken: false }, async (port) => {
+      const original = await connectExtension(port, 'browser-a', undefined);
+
+      const impostor = await TestClient.connect(port);
+      impostor.send(extensionHello('browser-a'));
+      assert.deepEqual(await impostor.next(), { type: 'error', error: 'Browser "browser-a" is already connected' });
+      await impostor.closed();
+
+      const session = await connectMcpServer(port);
+      session.send({ type: 'tool_call', id: '1', tool: 'list_tabs', params: {} });
+      assert.equal((await original.next('tool_call')).id, '1');
+    }));
+
+  runner.test('bridge: a hello with the token replaces a connected browser', () => withBridge({}, async (port) => {
+    const previous = await connectExtension(port, 'browser-a');
+    const replacement = await connectExtension(port, 'browser-a');
+    await previous.closed();
+
+    const session = await connectMcpServer(port);
+    session.send({ type: 'tool_call', id: '1', tool: 'list_tabs', params: {} });
+    assert.equal((await replacement.next('tool_call')).id, '1');
+  }));
+}
@@ -0,0 +1,166 @@
+/**
+ * Extraction: number parsing, value coercion and table layout
+ */
+
+import assert from 'node:assert/strict';
+import type { TestRunner } from '../../src/testing/helpers';
+import { Extractor } from '../../src/content/extractor';
+import type { StructuredFieldType } from '../../types/tools';
+
+interface CellSpec {
+  text: string;
+  th?: boolean;
+  rowSpan?: number;
+  colSpan?: number;
+}
+
+/**
+ * A stand-in for an HTMLTableElement with what the table reader uses: row groups,
+ * rows and cells with their spans. `rowSpan: 0` is what the DOM gives for rowspan="0".
+ */
+function buildTable(groups: { thead?: CellSpec[][]; tbody: CellSpec[][]; tfoot?: CellSpec[][] }): HTMLTableElement {
+  const makeGroup = (rows: CellSpec[][] = []) => {
+    const group = { rows: [] as object[] };
+    group.rows = rows.map((cells, sectionRowIndex) => ({
+      parentElement: group,
+      sectionRowIndex,
+      cells: cells.map((cell) => ({
+        tagName: cell.th ? 'TH' : 'TD',
+        textContent: cell.text,
+        rowSpan: cell.rowSpan ?? 1,
+        colSpan: cell.colSpan ?? 1,
+      })),
+    }));
+    return group;
+  };
+
+  const thead = groups.thead ? makeGroup(groups.thead) : null;
+  const sections = [thead, makeGroup(groups.tbody), groups.tfoot ? makeGroup(groups.tfoot) : null];
+  return {
+    tHead: thead,
+    caption: null,
+    rows: sections.flatMap((section) => section?.rows ?? []),
+  } as unknown as HTMLTableElement;
+}
+
+function gridText(table: HTMLTableElement): Array<Array<string | undefined>> {
+  return Extractor.tableGrid(table).map((row) => Array.from(row, (cell) => cell?.text));
+}
+
+const NUMBERS: Array<[string, number | null]> = [
+  ['42', 42],
+  ['$1,299.00', 1299],
+  ['1.299,00 €', 1299],
+  ['1,299', 1299],
+  ['1,234,567.89', 1234567.89],
+  ['1.234.567', 1234567],
+  ['1 234 567', 1234567],
+  ['12\u00a0345,67 kr', 12345.67],
+  ['4,5', 4.5],
+  ['4,50', 4.5],
+  ['-4.5%', -4.5],
+  ['Rating: 4.', 4],
+  ['3 items, 2 left', 3],
+  ['none', null],
+  ['-', null],
+  ['', null],
+];
+
+const COERCIONS: Array<[unknown, StructuredFieldType, unknown]> = [
+  ['  Socks ', 'string', 'Socks'],
+  [5, 'string', '5'],
+  [null, 'string', ''],
+  ['€ 1.299,00', 'number', 1299],
+  [7, 'number', 7],
+  ['Yes', 'boolean', true],
+  ['checked', 'boolean', true],
+  ['1', 'boolean', true],
+  ['off', 'boolean', false],
+  ['N', 'boolean', false],
+  ['', 'boolean', false],
+  [true, 'boolean', true],
+  ['2024-03-01', 'date', '2024-03-01T00:00:00.000Z'],
+  ['2024-03-01T10:00:00+02:00', 'date', '2024-03-01T08:00:00.000Z'],
+  [0, 'date', '1970-01-01T00:00:00.000Z'],
+];
+
+const INVALID: Array<[unknown, StructuredFieldType, string]> = [
+  ['abc', 'number', '"abc" is not a number'],
+  ['maybe', 'boolean', '"maybe" is not a boolean'],
+  ['not a date', 'date', '"not a date" is not a date'],
+  [{}, 'string', '{} is not a string'],
+  [['a'], 'number', '["a"] is not a number'],
+];
+
+export function extractorTests(runner: TestRunner) {
+  runner.test('extractor: numbers in common formats', () => {
+    for (const [text, expected] of NUMBERS) {
+      assert.equal(Extractor.parseNumber(text), expected, JSON.stringify(text));
+    }
+  });
+
+  runner.test('extractor: values are coerced to field types', () => {
+    for (const [raw, type, expected] of COERCIONS) {
+      assert.deepEqual(Extractor.coerce(raw, type), { success: true, data: expected }, `${JSON.stringify(raw)} as ${type}`);
+    }
+  });
+
+  runner.test('extractor: values that do not fit the type are errors', () => {
+    for (const [raw, type, error] of INVALID) {
+      assert.deepEqual(Extractor.coerce(raw, type), { success: false, error }, `${JSON.stringify(raw)} as ${type}`);
+    }
+  });
+
+  runner.test('extractor: spanned cells fill the table grid', () => {
+    const table = buildTable({
+      thead: [
+        [{ text: 'Product', th: true, rowSpan: 2 }, { text: 'Price', th: true, colSpan: 2 }],
+        [{ text: 'USD', th: true }, { text: 'EUR', th: true }],
+      ],
+      tbody: [
+        [{ text: 'Socks' }, { text: '5' }, { text: '4' }],
+        [{ text: 'Shoes', rowSpan: 0 }, { text: '50' }, { text: '45' }],
+        [{ text: '60' }, { text: '55' }],
+      ],
+      tfoot: [[{ text: 'Total', colSpan: 2 }, { text: '100' }]],
+    });
+
+    // rowspan="0" spans the rest of the tbody, not into the tfoot
+    assert.deepEqual(gridText(table), [
+      ['Product', 'Price', 'Price'],
+      ['Product', 'USD', 'EUR'],
+      ['Socks', '5', '4'],
+      ['Shoes', '50', '45'],
+      ['Shoes', '60', '55'],
+      ['Total', 'Total', '100'],
+    ]);
+
+    const { headers, rows } = Extractor.readTable(table, 0);
+    assert.deepEqual(headers, ['Product', 'Price / USD', 'Price / EUR']);
+    assert.deepEqual(rows[2], { 'Product': 'Shoes', 'Price / USD': '60', 'Price / EUR': '55' });
+    assert.deepEqual(rows[3], { 'Product': 'Total', 'Price / USD': 'Total', 'Price / EUR': '100' });
+  });
+
+  runner.test('extractor: row spans stop at the end of their row group', () => {
+    const table = buildTable({
+      tbody: [
+        [{ text: 'Name', th: true }, { text: 'Count', th: true }],
+        [{ text: 'A', rowSpan: 5 }, { text: '1' }],
+        [{ text: '2' }],
+      ],
+      tfoot: [[{ text: 'Sum' }, { text: '3' }]],
+    });
+
+    assert.deepEqual(gridText(table), [
+      ['Name', 'Count'],
+      ['A', '1'],
+      ['A', '2'],
+      ['Sum', '3'],
+    ]);
+    assert.deepEqual(Extractor.readTable(table, 1), {
+      index: 1,
+      headers: ['Name', 'Count'],
+      rows: [{ Name: 'A', Count: '1' }, { Name: 'A', Count: '2' }, { Name: 'Sum', Count: '3' }],
+    });
+  });
+}
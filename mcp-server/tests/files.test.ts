@@ -0,0 +1,117 @@
+/**
+ * Upload files: reading by path inside MCP_UPLOAD_ROOT, and upload_file validation
+ */
+
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { TestRunner } from '../../src/testing/helpers';
+import { base64Size, guessMimeType, withoutUploadContent } from '../../src/core/files';
+import { Schemas } from '../../src/core/validator';
+import { readUploadPaths } from '../files';
+
+/**
+ * Run a test with an upload root holding notes.txt and a docs/ directory, next to
+ * a secret.txt outside it; removed afterwards
+ */
+async function withUploadRoot(fn: (root: string, dir: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), 'mcp-upload-test-'));
+  const root = join(dir, 'uploads');
+  try {
+    await mkdir(join(root, 'docs'), { recursive: true });
+    await writeFile(join(root, 'notes.txt'), 'hello');
+    await writeFile(join(dir, 'secret.txt'), 'secret');
+    await fn(root, dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function upload(path: string) {
+  return { selector: 'input', files: [{ path }] };
+}
+
+export function fileTests(runner: TestRunner) {
+  runner.test('files: paths inside the upload root are read', () => withUploadRoot(async (root) => {
+    const params = await readUploadPaths('upload_file', upload('notes.txt'), [root]);
+    assert.deepEqual(params.files, [{ name: 'notes.txt', content: Buffer.from('hello').toString('base64') }]);
+
+    const absolute = await readUploadPaths('upload_file', { files: [{ path: join(root, 'notes.txt'), name: 'a.txt' }] }, [root]);
+    assert.deepEqual(absolute.files, [{ name: 'a.txt', content: Buffer.from('hello').toString('base64') }]);
+  }));
+
+  runner.test('files: paths outside the upload root are refused', () => withUploadRoot(async (root, dir) => {
+    for (const path of ['../secret.txt', join(dir, 'secret.txt'), '/etc/hostname']) {
+      await assert.rejects(readUploadPaths('upload_file', upload(path), [root]), /outside MCP_UPLOAD_ROOT|Cannot read file/, path);
+    }
+  }));
+
+  runner.test('files: symlinks out of the upload root are refused', () => withUploadRoot(async (root, dir) => {
+    await symlink(join(dir, 'secret.txt'), join(root, 'link.txt'));
+    await assert.rejects(readUploadPaths('upload_file', upload('link.txt'), [root]), /outside MCP_UPLOAD_ROOT/);
+  }));
+
+  runner.test('files: directories are refused', () => withUploadRoot(async (root) => {
+    await assert.rejects(readUploadPaths('upload_file', upload('docs'), [root]), /not a file/);
+  }));
+
+  runner.test('files: reading by path needs an upload root', async () => {
+    await assert.rejects(readUploadPaths('upload_file', upload('notes.txt'), []), /MCP_UPLOAD_ROOT/);
+    const content = { selector: 'input', files: [{ name: 'a.txt', content: 'aGk=' }] };
+    assert.equal(await readUploadPaths('upload_file', content, []), content);
+  });
+
+  runner.test('files: upload_file steps of run_steps are read too', () => withUploadRoot(async (root) => {
+    const params = await readUploadPaths('run_steps', {
+      steps: [
+        { tool: 'click', params: { selector: 'button' } },
+        { tool: 'upload_file', params: upload('notes.txt') },
+      ],
+    }, [root]);
+    assert.deepEqual(params.steps, [
+      { tool: 'click', params: { selector: 'button' } },
+      { tool: 'upload_file', params: { selector: 'input', files: [{ name: 'notes.txt', content: 'aGVsbG8=' }] } },
+    ]);
+  }));
+
+  runner.test('files: each file needs exactly one of content or path', () => {
+    assert.equal(Schemas.uploadFile.validate(upload('notes.txt')).success, true);
+    assert.equal(Schemas.uploadFile.validate({ selector: 'input', files: [{ name: 'a.txt', content: '' }] }).success, true);
+    assert.equal(Schemas.uploadFile.validate({ selector: 'input', files: [{ name: 'a.txt' }] }).success, false);
+    assert.equal(Schemas.uploadFile.validate({ selector: 'input', files: [{ path: 'a.txt', content: 'aGk=' }] }).success, false);
+    assert.equal(Schemas.uploadFile.validate({ selector: 'input', files: [{ content: 'aGk=' }] }).success, false);
+    assert.equal(Schemas.uploadFile.validate({ selector: 'input', files: [] }).success, false);
+  });
+
+  runner.test('files: MIME types and base64 sizes', () => {
+    assert.equal(guessMimeType('Resume.PDF'), 'application/pdf');
+    assert.equal(guessMimeType('archive.tar.gz'), 'application/gzip');
+    assert.equal(guessMimeType('README'), '');
+    assert.equal(base64Size(Buffer.from('hello').toString('base64')), 5);
+    assert.equal(base64Size(Buffer.from('hell').toString('base64')), 4);
+    assert.equal(base64Size(''), 0);
+  });
+
+  runner.test('files: upload contents are left out of logged params', () => {
+    const content = Buffer.from('hello').toString('base64');
+    const params = { selector: 'input', files: [{ name: 'a.txt', content }, { path: 'b.txt' }] };
+    assert.deepEqual(withoutUploadContent('upload_file', params), {
+      selector: 'input',
+      files: [{ name: 'a.txt', content: '[5 bytes]' }, { path: 'b.txt' }],
+    });
+    assert.equal(params.files[0].content, content);
+
+    assert.deepEqual(withoutUploadContent('run_steps', {
+      steps: [{ tool: 'upload_file', params }, { tool: 'fill', params: { selector: 'input', value: 'x' } }],
+    }), {
+      steps: [
+        { tool: 'upload_file', params: { selector: 'input', files: [{ name: 'a.txt', content: '[5 bytes]' }, { path: 'b.txt' }] } },
+        { tool: 'fill', params: { selector: 'input', value: 'x' } },
+      ],
+    });
+
+    const fill = { selector: 'input', value: 'x' };
+    assert.equal(withoutUploadContent('fill', fill), fill);
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Key definitions and key sequence parsing
+ */
+
+import assert from 'node:assert/strict';
+import type { TestRunner } from '../../src/testing/helpers';
+import { getKeyDefinition, parseKeySequence } from '../../src/core/keyboard';
+import { AppError, ErrorCode } from '../../src/core/errors';
+
+function assertInvalid(sequence: string, message: RegExp) {
+  assert.throws(
+    () => parseKeySequence(sequence),
+    (error: unknown) => error instanceof AppError && error.code === ErrorCode.INVALID_INPUT && message.test(error.message)
+  );
+}
+
+export function keyboardTests(runner: TestRunner) {
+  runner.test('keyboard: letters and their shifted values', () => {
+    assert.deepEqual(getKeyDefinition('a'), { key: 'a', code: 'KeyA', keyCode: 65, text: 'a' });
+    assert.deepEqual(getKeyDefinition('A'), { key: 'A', code: 'KeyA', keyCode: 65, text: 'A', shift: true });
+    assert.deepEqual(getKeyDefinition('1', true), { key: '!', code: 'Digit1', keyCode: 49, text: '!', shift: true });
+  });
+
+  runner.test('keyboard: named keys and aliases are case-insensitive', () => {
+    assert.equal(getKeyDefinition('enter')?.key, 'Enter');
+    assert.equal(getKeyDefinition('Esc')?.key, 'Escape');
+    assert.equal(getKeyDefinition('cmd')?.key, 'Meta');
+    assert.equal(getKeyDefinition('Space')?.code, 'Space');
+    assert.equal(getKeyDefinition('NoSuchKey'), undefined);
+  });
+
+  runner.test('keyboard: numpad and right modifiers are addressed by code', () => {
+    assert.deepEqual(getKeyDefinition('NumpadEnter'), { key: 'Enter', code: 'NumpadEnter', keyCode: 13, text: '\r', location: 3 });
+    assert.deepEqual(getKeyDefinition('ShiftRight'), { key: 'Shift', code: 'ShiftRight', keyCode: 16, location: 2 });
+  });
+
+  runner.test('keyboard: chords with modifiers', () => {
+    const [chord] = parseKeySequence('Control+Shift+K');
+    assert.deepEqual(chord.modifiers, { ctrl: true, shift: true });
+    assert.equal(chord.key.key, 'K');
+    assert.equal(chord.key.code, 'KeyK');
+  });
+
+  runner.test('keyboard: sequences split on whitespace', () => {
+    const chords = parseKeySequence('  Tab Tab\tEnter ');
+    assert.deepEqual(chords.map((chord) => chord.key.key), ['Tab', 'Tab', 'Enter']);
+  });
+
+  runner.test('keyboard: shortcut letters are lowercased like a real keyboard', () => {
+    const [chord] = parseKeySequence('Meta+A');
+    assert.equal(chord.key.key, 'a');
+    assert.deepEqual(chord.modifiers, { meta: true });
+  });
+
+  runner.test('keyboard: shifted characters hold Shift', () => {
+    const [chord] = parseKeySequence('!');
+    assert.equal(chord.key.code, 'Digit1');
+    assert.deepEqual(chord.modifiers, { shift: true });
+  });
+
+  runner.test('keyboard: plus is a key of its own', () => {
+    assert.equal(parseKeySequence('+')[0].key.key, '+');
+    const [chord] = parseKeySequence('Control++');
+    assert.equal(chord.key.key, '+');
+    assert.deepEqual(chord.modifiers, { ctrl: true, shift: true });
+  });
+
+  runner.test('keyboard: invalid sequences', () => {
+    assertInvalid('   ', /empty/);
+    assertInvalid('Control+', /Invalid key chord/);
+    assertInvalid('a+b', /not a modifier/);
+    assertInvalid('Control+Nope', /Unknown key "Nope"/);
+  });
+}
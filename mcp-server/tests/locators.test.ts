@@ -0,0 +1,60 @@
+/**
+ * Locator parsing, description and validation
+ */
+
+import assert from 'node:assert/strict';
+import type { TestRunner } from '../../src/testing/helpers';
+import { ElementLocator } from '../../src/content/locators';
+import { Schemas } from '../../src/core/validator';
+
+export function locatorTests(runner: TestRunner) {
+  runner.test('locators: strings parse as CSS selectors', () => {
+    assert.deepEqual(ElementLocator.parse('#email'), { type: 'css', value: '#email' });
+  });
+
+  runner.test('locators: objects parse unchanged', () => {
+    const locator = { type: 'role' as const, value: 'button', name: 'Save' };
+    assert.equal(ElementLocator.parse(locator), locator);
+  });
+
+  runner.test('locators: describe CSS as the selector itself', () => {
+    assert.equal(ElementLocator.describe('.card > a'), '.card > a');
+  });
+
+  runner.test('locators: describe options and chained within', () => {
+    assert.equal(
+      ElementLocator.describe({
+        type: 'role',
+        value: 'button',
+        name: 'Add to cart',
+        exact: true,
+        nth: 2,
+        within: { type: 'css', value: '.product-card' },
+      }),
+      '.product-card >> role="button" name="Add to cart" exact nth=2'
+    );
+  });
+
+  runner.test('locators: element tools need selector, ref or locator', () => {
+    const result = Schemas.click.validate({});
+    assert.equal(result.success, false);
+    assert.match(result.error!, /One of "selector", "ref" or "locator" is required/);
+  });
+
+  runner.test('locators: nested within locators are validated', () => {
+    assert.equal(Schemas.click.validate({
+      locator: { type: 'text', value: 'Next', within: { type: 'css', value: 'nav' } },
+    }).success, true);
+
+    const invalid = Schemas.click.validate({
+      locator: { type: 'text', value: 'Next', within: { type: 'shadow', value: 'nav' } },
+    });
+    assert.equal(invalid.success, false);
+    assert.match(invalid.error!, /within/);
+  });
+
+  runner.test('locators: refs must look like e<number>', () => {
+    assert.equal(Schemas.click.validate({ ref: 'e12' }).success, true);
+    assert.equal(Schemas.click.validate({ ref: '12' }).success, false);
+  });
+}
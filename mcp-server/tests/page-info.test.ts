@@ -0,0 +1,58 @@
+/**
+ * Page content pagination
+ */
+
+import assert from 'node:assert/strict';
+import type { TestRunner } from '../../src/testing/helpers';
+import { PageInfo } from '../../src/content/page-info';
+
+/**
+ * Every chunk of a string, following the cursors
+ */
+function allChunks(content: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const chunk = PageInfo.paginate(content, cursor, maxLength);
+    assert.notEqual(chunk.nextCursor, cursor, 'cursor must move forward');
+    chunks.push(chunk.content);
+    cursor = chunk.nextCursor;
+  } while (cursor !== undefined);
+  return chunks;
+}
+
+export function pageInfoTests(runner: TestRunner) {
+  runner.test('pagination: without a limit the content is one chunk', () => {
+    assert.deepEqual(PageInfo.paginate('hello world'), { content: 'hello world', nextCursor: undefined });
+    assert.deepEqual(PageInfo.paginate('hello world', '6'), { content: 'world', nextCursor: undefined });
+  });
+
+  runner.test('pagination: chunks break at whitespace near the limit', () => {
+    assert.deepEqual(PageInfo.paginate('alpha beta gamma', undefined, 12), { content: 'alpha beta ', nextCursor: '11' });
+    assert.deepEqual(allChunks('alpha beta gamma', 12), ['alpha beta ', 'gamma']);
+    const lines = `${'a'.repeat(17)}\n${'b'.repeat(10)}`;
+    assert.deepEqual(allChunks(lines, 20), [`${'a'.repeat(17)}\n`, 'b'.repeat(10)]);
+    // No whitespace in the last fifth of the chunk: cut at the limit
+    assert.deepEqual(allChunks('abcdefghij', 4), ['abcd', 'efgh', 'ij']);
+    assert.deepEqual(allChunks('ab cdefghij', 10), ['ab cdefghi', 'j']);
+  });
+
+  runner.test('pagination: a cursor at the end gives an empty last chunk', () => {
+    assert.deepEqual(PageInfo.paginate('hello', '5', 3), { content: '', nextCursor: undefined });
+    assert.deepEqual(PageInfo.paginate('', '0', 3), { content: '', nextCursor: undefined });
+  });
+
+  runner.test('pagination: surrogate pairs are not split', () => {
+    // The limit falls right after the high surrogate of 😀
+    assert.deepEqual(PageInfo.paginate('ab😀cd', undefined, 3), { content: 'ab', nextCursor: '2' });
+    assert.deepEqual(PageInfo.paginate('ab😀cd', '2', 1), { content: '😀', nextCursor: '4' });
+    assert.deepEqual(allChunks('😀😀😀', 1), ['😀', '😀', '😀']);
+    assert.equal(allChunks('x😀y😀z 😀', 3).join(''), 'x😀y😀z 😀');
+  });
+
+  runner.test('pagination: invalid cursors are rejected', () => {
+    for (const cursor of ['1.5', 'abc', '-1', '', ' 2', '1e1', '6']) {
+      assert.throws(() => PageInfo.paginate('hello', cursor, 3), /Invalid cursor/, JSON.stringify(cursor));
+    }
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Resource URIs
+ */
+
+import assert from 'node:assert/strict';
+import type { TestRunner } from '../../src/testing/helpers';
+import { getTabResources, LOGS_URI, parseResourceUri, TABS_URI, tabContentUri, tabScreenshotUri } from '../resources';
+
+export function resourceTests(runner: TestRunner) {
+  runner.test('resources: static URIs', () => {
+    assert.deepEqual(parseResourceUri(TABS_URI), { kind: 'tabs' });
+    assert.deepEqual(parseResourceUri(LOGS_URI), { kind: 'logs' });
+  });
+
+  runner.test('resources: tab URIs round-trip', () => {
+    assert.deepEqual(parseResourceUri(tabContentUri(42)), { kind: 'tab_content', tabId: 42 });
+    assert.deepEqual(parseResourceUri(tabScreenshotUri(7)), { kind: 'tab_screenshot', tabId: 7 });
+  });
+
+  runner.test('resources: unknown URIs are not ours', () => {
+    for (const uri of [
+      'browser://tab/abc/content',
+      'browser://tab/1/html',
+      'browser://tab/1/content/extra',
+      'browser://tabs/',
+      'https://example.com',
+    ]) {
+      assert.equal(parseResourceUri(uri), null, uri);
+    }
+  });
+
+  runner.test('resources: every tab resource parses back to its tab', () => {
+    const resources = getTabResources({ id: 3, title: '', url: 'https://example.com' });
+    assert.deepEqual(resources.map((resource) => parseResourceUri(resource.uri)), [
+      { kind: 'tab_content', tabId: 3 },
+      { kind: 'tab_screenshot', tabId: 3 },
+    ]);
+    assert.equal(resources[0].name, 'Content: https://example.com');
+  });
+}
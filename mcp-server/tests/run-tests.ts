@@ -0,0 +1,34 @@
+/**
+ * Test entry point: registers every suite on one runner and fails the process if a test fails
+ *
+ * Usage: tsx mcp-server/tests/run-tests.ts
+ */
+
+import { TestRunner } from '../../src/testing/helpers';
+import { bridgeTests } from './bridge.test';
+import { extractorTests } from './extractor.test';
+import { fileTests } from './files.test';
+import { keyboardTests } from './keyboard.test';
+import { locatorTests } from './locators.test';
+import { pageInfoTests } from './page-info.test';
+import { resourceTests } from './resources.test';
+import { stepTests } from './steps.test';
+import { trustedInputTests } from './trusted-input.test';
+
+const runner = new TestRunner();
+
+bridgeTests(runner);
+extractorTests(runner);
+fileTests(runner);
+keyboardTests(runner);
+locatorTests(runner);
+pageInfoTests(runner);
+resourceTests(runner);
+stepTests(runner);
+trustedInputTests(runner);
+
+await runner.run();
+
+if (runner.getResults().some((result) => !result.passed)) {
+  process.exitCode = 1;
+}
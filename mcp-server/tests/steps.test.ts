@@ -0,0 +1,71 @@
+/**
+ * run_steps: step tools and assertions
+ */
+
+import assert from 'node:assert/strict';
+import type { TestRunner } from '../../src/testing/helpers';
+import { checkAssertion, getPath, isStepTool } from '../../src/background/steps';
+import { Schemas } from '../../src/core/validator';
+import { TOOL_SPECS } from '../../shared/tools';
+
+const result = {
+  success: true,
+  content: { title: 'Checkout', total: null },
+  items: [{ name: 'Socks' }, { name: 'Shoes' }],
+};
+
+function runSteps(assertion: Record<string, unknown>) {
+  return Schemas.runSteps.validate({ steps: [{ tool: 'extract', assert: [assertion] }] });
+}
+
+export function stepTests(runner: TestRunner) {
+  runner.test('steps: only tools other than run_steps can run', () => {
+    assert.equal(isStepTool('click', TOOL_SPECS), true);
+    assert.equal(isStepTool('upload_file', TOOL_SPECS), true);
+    assert.equal(isStepTool('run_steps', TOOL_SPECS), false);
+    for (const name of ['toString', 'constructor', '__proto__', 'hasOwnProperty', 'unknown_tool']) {
+      assert.equal(isStepTool(name, TOOL_SPECS), false, name);
+    }
+  });
+
+  runner.test('step assertions: paths into objects and arrays', () => {
+    assert.equal(getPath(result), result);
+    assert.equal(getPath(result, 'content.title'), 'Checkout');
+    assert.equal(getPath(result, 'items.1.name'), 'Shoes');
+    assert.equal(getPath(result, 'items.5.name'), undefined);
+    assert.equal(getPath(result, 'content.title.length'), undefined);
+  });
+
+  runner.test('step assertions: equals compares JSON, null included', () => {
+    assert.equal(checkAssertion(result, { path: 'content.total', equals: null }), true);
+    assert.equal(checkAssertion(result, { path: 'content.title', equals: null }), false);
+    assert.equal(checkAssertion(result, { path: 'items.0', equals: { name: 'Socks' } }), true);
+    assert.equal(checkAssertion(result, { path: 'items.0', equals: { name: 'Shoes' } }), false);
+  });
+
+  runner.test('step assertions: contains and matches use the value as text', () => {
+    assert.equal(checkAssertion(result, { path: 'content.title', contains: 'Check' }), true);
+    assert.equal(checkAssertion(result, { path: 'items', contains: '"Shoes"' }), true);
+    assert.equal(checkAssertion(result, { path: 'content.title', matches: '^Check' }), true);
+    assert.equal(checkAssertion(result, { path: 'content.title', matches: 'out$', contains: 'Cart' }), false);
+  });
+
+  runner.test('step assertions: an invalid pattern fails the check', () => {
+    assert.equal(checkAssertion(result, { path: 'content.title', matches: '(' }), false);
+  });
+
+  runner.test('step assertions: exists treats null as absent', () => {
+    assert.equal(checkAssertion(result, { path: 'content.title', exists: true }), true);
+    assert.equal(checkAssertion(result, { path: 'content.total', exists: false }), true);
+    assert.equal(checkAssertion(result, { path: 'content.missing', exists: true }), false);
+  });
+
+  runner.test('step assertions: schema keeps equals: null and needs a check', () => {
+    const valid = runSteps({ path: 'content.total', equals: null });
+    assert.equal(valid.success, true);
+    assert.deepEqual(valid.data?.steps[0].assert?.[0], { path: 'content.total', equals: null });
+
+    assert.equal(runSteps({ path: 'content.total' }).success, false);
+    assert.equal(runSteps({ exists: false }).success, true);
+  });
+}
@@ -0,0 +1,19 @@
+/**
+ * Trusted input: debugger attach errors
+ */
+
+import assert from 'node:assert/strict';
+import type { TestRunner } from '../../src/testing/helpers';
+import { isAlreadyAttachedError } from '../../src/background/trusted-input';
+
+export function trustedInputTests(runner: TestRunner) {
+  runner.test('trusted input: an attached debugger is recognized', () => {
+    assert.equal(isAlreadyAttachedError('Another debugger is already attached to the tab with id: 12.'), true);
+    assert.equal(isAlreadyAttachedError('Already attached to the tab with id: 12.'), true);
+  });
+
+  runner.test('trusted input: other attach errors are not', () => {
+    assert.equal(isAlreadyAttachedError('No tab with given id 12.'), false);
+    assert.equal(isAlreadyAttachedError('Cannot access a chrome:// URL'), false);
+  });
+}
@@ -7,7 +7,7 @@
 import { logger } from '../../src/core/logger';
 import { AppError, ErrorCode } from '../../src/core/errors';
 import { generateId } from '../../src/core/id-generator';
-import type { BridgeClientConfig, BridgeMessage, BridgeClientType } from '../../types/bridge';
+import type { BridgeClientConfig, BridgeMessage, BridgeClientType, BrowserEventName, BrowserIdentity, BrowserInfo } from '../../types/bridge';
 import type { JsonValue } from '../../types';
 
 export class BridgeClient {
@@ -23,13 +23,15 @@ export class BridgeClient {
   }>();
 
   private config: BridgeClientConfig = {
-    url: 'ws://localhost:37373',
+    url: 'ws://127.0.0.1:37373',
     port: 37373,
     reconnectInterval: 2000,
     maxReconnectAttempts: 10,
     messageQueueLimit: 100,
   };
 
+  private capabilities: string[] | undefined;
+  private identity: BrowserIdentity | undefined;
   private messageHandler: ((message: BridgeMessage) => Promise<void> | void) | null = null;
   private onConnectedCallback: (() => void) | null = null;
   private onDisconnectedCallback: (() => void) | null = null;
@@ -47,6 +49,20 @@ export class BridgeClient {
     this.config = config;
   }
 
+  /**
+   * Set the tool names this client supports (announced in hello)
+   */
+  setCapabilities(tools: string[]) {
+    this.capabilities = tools;
+  }
+
+  /**
+   * Set the browser identity this client registers with (extensions only)
+   */
+  setIdentity(identity: BrowserIdentity) {
+    this.identity = identity;
+  }
+
   setMessageHandler(handler: (message: BridgeMessage) => Promise<void> | void) {
     this.messageHandler = handler;
   }
@@ -102,6 +118,8 @@ export class BridgeClient {
     this.reconnectAttempts = 0;
 
     if (this.ws) {
+      // Intentional close: do not schedule a reconnect
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
     }
@@ -118,6 +136,9 @@ export class BridgeClient {
     this.sendMessage({
       type: 'hello',
       client: this.clientType,
+      tools: this.capabilities,
+      token: this.config.token,
+      browser: this.identity,
     });
 
     // Flush queued messages
@@ -147,7 +168,9 @@ export class BridgeClient {
 
       // Handle hello acknowledgment
       if (message.type === 'hello' && message.status === 'connected') {
-        logger.info('BridgeClient', 'Bridge acknowledged connection');
+        logger.info('BridgeClient', 'Bridge acknowledged connection', {
+          sessionId: message.sessionId,
+        });
         return;
       }
 
@@ -159,7 +182,11 @@ export class BridgeClient {
           this.pendingRequests.delete(message.id);
 
           if (message.error) {
-            pending.reject(new Error(message.error));
+            pending.reject(
+              message.code
+                ? new AppError(message.code as ErrorCode, message.error)
+                : new Error(message.error)
+            );
           } else {
             pending.resolve(message.data ?? null);
           }
@@ -259,6 +286,13 @@ export class BridgeClient {
     logger.debug('BridgeClient', 'Message queued (waiting for connection)', { type: message.type });
   }
 
+  /**
+   * Notify the bridge of a browser event. Events are dropped, not queued, while disconnected.
+   */
+  sendEvent(event: BrowserEventName, data: JsonValue) {
+    this.safeSend({ type: 'event', event, data });
+  }
+
   private flushMessageQueue() {
     while (this.messageQueue.length > 0) {
       const message = this.messageQueue.shift()!;
@@ -282,8 +316,23 @@ export class BridgeClient {
   async sendRequest<T>(
     tool: string,
     params: Record<string, JsonValue>,
-    timeout = 30000
+    timeout = 30000,
+    browserId?: string
   ): Promise<T> {
+    return this.request<T>({ type: 'tool_call', tool, params, browserId }, timeout);
+  }
+
+  /**
+   * List the browsers connected to the bridge
+   */
+  async listBrowsers(timeout = 5000): Promise<BrowserInfo[]> {
+    return this.request<BrowserInfo[]>({ type: 'list_browsers' }, timeout);
+  }
+
+  /**
+   * Send a message and wait for the response with the same ID
+   */
+  private async request<T>(message: BridgeMessage, timeout: number): Promise<T> {
     if (!this.isConnected) {
       throw new AppError(ErrorCode.BRIDGE_NOT_CONNECTED, 'Bridge not connected');
     }
@@ -302,21 +351,17 @@ export class BridgeClient {
         timeout: timeoutHandle,
       });
 
-      this.sendMessage({
-        type: 'tool_call',
-        id,
-        tool,
-        params,
-      });
+      this.sendMessage({ ...message, id });
     });
   }
 
-  sendResponse(id: string, data: JsonValue | null, error?: string) {
+  sendResponse(id: string, data: JsonValue | null, error?: string, code?: string) {
     this.sendMessage({
       type: 'response',
       id,
       data,
       error,
+      code,
     });
   }
 
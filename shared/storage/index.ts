@@ -7,6 +7,7 @@ import { defineExtensionStorage } from '@webext-core/storage';
 import { browser } from 'wxt/browser';
 import type { LoggingConfig, BridgeConfig, AppConfig, TimeoutConfig, ConcurrencyConfig } from '../../types/config';
 import type { JsonValue } from '../../types';
+import { generateId } from '../../src/core/id-generator';
 
 // Log entry type
 export interface LogEntry {
@@ -21,12 +22,13 @@ export interface LogEntry {
 interface StorageItems {
   config: AppConfig;
   logs: LogEntry[];
+  browserId: string;
 }
 
 // Default configuration (matching types/config.ts)
 export const defaultAppConfig: AppConfig = {
   bridge: {
-    url: 'ws://localhost:37373',
+    url: 'ws://127.0.0.1:37373',
     port: 37373,
     reconnectInterval: 2000,
     maxReconnectAttempts: 10,
@@ -46,6 +48,9 @@ export const defaultAppConfig: AppConfig = {
     level: 'info',
     enableTracing: true,
   },
+  input: {
+    trusted: false,
+  },
 };
 
 // Create typed storage instance
@@ -55,7 +60,15 @@ const storage = defineExtensionStorage<StorageItems>(browser.storage.local);
 export async function getConfig(): Promise<AppConfig> {
   try {
     const stored = await storage.getItem('config');
-    return stored ?? defaultAppConfig;
+    if (!stored) return defaultAppConfig;
+    // Stored config may be partial (e.g. only bridge.token set by hand)
+    return {
+      bridge: { ...defaultAppConfig.bridge, ...stored.bridge },
+      timeouts: { ...defaultAppConfig.timeouts, ...stored.timeouts },
+      concurrency: { ...defaultAppConfig.concurrency, ...stored.concurrency },
+      logging: { ...defaultAppConfig.logging, ...stored.logging },
+      input: { ...defaultAppConfig.input, ...stored.input },
+    };
   } catch {
     return defaultAppConfig;
   }
@@ -71,6 +84,7 @@ export async function updateConfig(updates: Partial<AppConfig>): Promise<AppConf
     ...(updates.bridge && { bridge: { ...current.bridge, ...updates.bridge } }),
     ...(updates.timeouts && { timeouts: { ...current.timeouts, ...updates.timeouts } }),
     ...(updates.concurrency && { concurrency: { ...current.concurrency, ...updates.concurrency } }),
+    ...(updates.input && { input: { ...current.input, ...updates.input } }),
   };
   await storage.setItem('config', newConfig);
   return newConfig;
@@ -80,6 +94,16 @@ export async function resetConfig(): Promise<void> {
   await storage.removeItem('config');
 }
 
+// Browser instance ID (stable per profile, identifies this browser to the bridge)
+export async function getBrowserId(): Promise<string> {
+  const stored = await storage.getItem('browserId');
+  if (stored) return stored;
+
+  const id = generateId('browser');
+  await storage.setItem('browserId', id);
+  return id;
+}
+
 // Logs management functions
 export async function getLogs(limit?: number): Promise<LogEntry[]> {
   try {
@@ -0,0 +1,266 @@
+/**
+ * Shared Tool Registry
+ * Single source of truth for tool names, descriptions and input schemas.
+ * Used by both the extension (to validate and dispatch) and the MCP server
+ * (to answer ListTools).
+ */
+
+import { Schema, Schemas } from '../../src/core/validator';
+import type { JsonSchema } from '../../types';
+
+export interface ToolSpec {
+  name: string;
+  description: string;
+  schema: Schema<unknown>;
+}
+
+export const TOOL_SPECS = {
+  navigate: {
+    name: 'navigate',
+    description: 'Navigate to a URL in the browser (in a new tab unless tabId is given) and wait for the page to load. Returns the tab ID, final URL after redirects, HTTP status and page title.',
+    schema: Schemas.navigate,
+  },
+  click: {
+    name: 'click',
+    description: 'Click an element on the page, located by CSS selector, snapshot ref or locator',
+    schema: Schemas.click,
+  },
+  click_at: {
+    name: 'click_at',
+    description: 'Click at a specific coordinate on the page (x, y in pixels relative to the viewport)',
+    schema: Schemas.clickAt,
+  },
+  fill: {
+    name: 'fill',
+    description: 'Fill an input, textarea, select or contenteditable/rich-text editor with text, located by CSS selector, snapshot ref or locator. Works with React, Vue and Angular controlled inputs and fails with VALUE_NOT_APPLIED if the page reverts the value',
+    schema: Schemas.fill,
+  },
+  get_page_content: {
+    name: 'get_page_content',
+    description: 'Get the current page content including title, URL, and text content',
+    schema: Schemas.getPageContent,
+  },
+  snapshot: {
+    name: 'snapshot',
+    description: 'Get a compact accessibility tree of the page (roles, names, states and values). Interactive elements carry a ref (e.g. "e12") that element tools accept instead of a CSS selector. Prefer this over get_page_content to understand and act on a page.',
+    schema: Schemas.snapshot,
+  },
+  screenshot: {
+    name: 'screenshot',
+    description: 'Take a screenshot of the current page or a specific tab. Set fullPage to capture the whole scrollable page, or pass selector/ref/locator to capture a single element.',
+    schema: Schemas.screenshot,
+  },
+  list_tabs: {
+    name: 'list_tabs',
+    description: 'List all open browser tabs with their window, position, load status, pinned and audible state',
+    schema: Schemas.listTabs,
+  },
+  activate_tab: {
+    name: 'activate_tab',
+    description: 'Activate a specific tab by ID',
+    schema: Schemas.activateTab,
+  },
+  reload: {
+    name: 'reload',
+    description: 'Reload the current page or a specific tab',
+    schema: Schemas.reload,
+  },
+  go_back: {
+    name: 'go_back',
+    description: 'Go back in the tab\'s history and wait for the page to load. Returns the tab ID, URL, HTTP status and title',
+    schema: Schemas.goBack,
+  },
+  go_forward: {
+    name: 'go_forward',
+    description: 'Go forward in the tab\'s history and wait for the page to load. Returns the tab ID, URL, HTTP status and title',
+    schema: Schemas.goForward,
+  },
+  new_tab: {
+    name: 'new_tab',
+    description: 'Open a new tab, optionally with a URL (waits for it to load) and in the background',
+    schema: Schemas.newTab,
+  },
+  close_tab: {
+    name: 'close_tab',
+    description: 'Close the current tab or a specific tab',
+    schema: Schemas.closeTab,
+  },
+  duplicate_tab: {
+    name: 'duplicate_tab',
+    description: 'Duplicate the current tab or a specific tab and return the new tab',
+    schema: Schemas.duplicateTab,
+  },
+  pin_tab: {
+    name: 'pin_tab',
+    description: 'Pin or unpin a tab',
+    schema: Schemas.pinTab,
+  },
+  move_tab: {
+    name: 'move_tab',
+    description: 'Move a tab to another position or window',
+    schema: Schemas.moveTab,
+  },
+  list_windows: {
+    name: 'list_windows',
+    description: 'List all browser windows with their state, bounds, tab count and active tab',
+    schema: Schemas.listWindows,
+  },
+  new_window: {
+    name: 'new_window',
+    description: 'Open a new browser window, optionally with a URL, bounds or state; incognito requires the extension to be allowed in incognito',
+    schema: Schemas.newWindow,
+  },
+  close_window: {
+    name: 'close_window',
+    description: 'Close a window and all of its tabs',
+    schema: Schemas.closeWindow,
+  },
+  resize_window: {
+    name: 'resize_window',
+    description: 'Move or resize a window, or change its state (normal, minimized, maximized, fullscreen)',
+    schema: Schemas.resizeWindow,
+  },
+  query_selector: {
+    name: 'query_selector',
+    description: 'Query a single element by CSS selector, snapshot ref or locator and return its details',
+    schema: Schemas.querySelector,
+  },
+  query_selector_all: {
+    name: 'query_selector_all',
+    description: 'Query all elements matching a CSS selector or locator',
+    schema: Schemas.querySelectorAll,
+  },
+  get_form_values: {
+    name: 'get_form_values',
+    description: 'Get all form input values from the current page',
+    schema: Schemas.getFormValues,
+  },
+  type: {
+    name: 'type',
+    description: 'Type text into an input, textarea or contenteditable character by character, firing key and input events for each keystroke (useful for autocomplete fields). Fails with VALUE_NOT_APPLIED if the page reverts the value',
+    schema: Schemas.type,
+  },
+  press_key: {
+    name: 'press_key',
+    description: 'Press a keyboard key (e.g. Enter, Escape, ArrowDown) with optional modifiers',
+    schema: Schemas.pressKey,
+  },
+  press_keys: {
+    name: 'press_keys',
+    description: 'Press a key sequence on the focused element, e.g. "Control+Shift+K", "Tab Tab Enter" or "Meta+a Backspace". Performs the keys\' default actions (typing, deleting, moving focus on Tab, submitting on Enter), also inside shadow roots and same-origin iframes',
+    schema: Schemas.pressKeys,
+  },
+  hover: {
+    name: 'hover',
+    description: 'Hover over an element, located by CSS selector, snapshot ref or locator',
+    schema: Schemas.hover,
+  },
+  drag: {
+    name: 'drag',
+    description: 'Drag an element onto another element, by an offset or to viewport coordinates. Supports HTML5 drag and drop (draggable="true") and pointer-driven libraries (sortable lists, kanban boards, sliders, canvases)',
+    schema: Schemas.drag,
+  },
+  upload_file: {
+    name: 'upload_file',
+    description: 'Attach files to an <input type="file">, or drop them on a drop zone. Give each file as base64 "content" with a "name", or as a "path" on the machine running the MCP server. Dropping fails if the element does not accept the drop',
+    schema: Schemas.uploadFile,
+  },
+  select_option: {
+    name: 'select_option',
+    description: 'Select an option in a select element by its value',
+    schema: Schemas.selectOption,
+  },
+  get_text: {
+    name: 'get_text',
+    description: 'Get the text content of an element',
+    schema: Schemas.getText,
+  },
+  get_attribute: {
+    name: 'get_attribute',
+    description: 'Get the value of an attribute on an element',
+    schema: Schemas.getAttribute,
+  },
+  wait_for: {
+    name: 'wait_for',
+    description: 'Wait for an element matching a CSS selector or locator to appear in the DOM',
+    schema: Schemas.waitFor,
+  },
+  wait_for_visible: {
+    name: 'wait_for_visible',
+    description: 'Wait for an element matching a CSS selector or locator to become visible',
+    schema: Schemas.waitForVisible,
+  },
+  wait_for_text: {
+    name: 'wait_for_text',
+    description: 'Wait for an element to contain the given text',
+    schema: Schemas.waitForText,
+  },
+  extract: {
+    name: 'extract',
+    description: 'Extract structured data from the page: links, images, headings, tables, metadata or structure',
+    schema: Schemas.extract,
+  },
+  extract_structured: {
+    name: 'extract_structured',
+    description: 'For each element matching a selector or locator (e.g. every ".product-card"), read a JSON object from a map of fields, each with its own selector, attribute/property and type (string, number, boolean, url, date)',
+    schema: Schemas.extractStructured,
+  },
+  run_steps: {
+    name: 'run_steps',
+    description: 'Run several tool calls in one request (e.g. navigate, fill, click, wait_for, extract). Steps run in order and stop at the first failure unless continueOnError is set; each step can assert on its result. Returns per-step results and timings',
+    schema: Schemas.runSteps,
+  },
+  get_logs: {
+    name: 'get_logs',
+    description: 'Get recent extension log entries (without their data, and without the tool calls of other sessions), optionally filtered by minimum level and context',
+    schema: Schemas.getLogs,
+  },
+} as const satisfies Record<string, ToolSpec>;
+
+export type ToolName = keyof typeof TOOL_SPECS;
+
+/**
+ * Tools answered by the bridge itself rather than by an extension
+ */
+export const BRIDGE_TOOL_SPECS = {
+  list_browsers: {
+    name: 'list_browsers',
+    description: 'List the browsers connected to the bridge with their id, name, browser, version and profile. Pass an id or name as browserId to any other tool to run it in that browser; the choice sticks for later calls.',
+    schema: Schemas.listBrowsers,
+  },
+} as const satisfies Record<string, ToolSpec>;
+
+export type BridgeToolName = keyof typeof BRIDGE_TOOL_SPECS;
+
+/**
+ * Extra argument accepted by every extension tool to pick the browser it runs in
+ */
+export const browserIdSchema = Schema.optional(Schema.string({ min: 1 }))
+  .describe('Browser to run in (id or name from list_browsers; defaults to the last chosen or first connected browser)');
+
+export function getToolSpecs(): ToolSpec[] {
+  return Object.values(TOOL_SPECS);
+}
+
+export function getBridgeToolSpecs(): ToolSpec[] {
+  return Object.values(BRIDGE_TOOL_SPECS);
+}
+
+/**
+ * Convert a tool spec into the shape advertised by MCP `tools/list`
+ */
+export function toMcpTool(
+  spec: ToolSpec,
+  extraProperties: Record<string, JsonSchema> = {}
+): { name: string; description: string; inputSchema: JsonSchema & { type: 'object' } } {
+  const inputSchema = spec.schema.toJSONSchema();
+  return {
+    name: spec.name,
+    description: spec.description,
+    inputSchema: {
+      ...inputSchema,
+      type: 'object',
+      properties: { ...inputSchema.properties, ...extraProperties },
+    },
+  };
+}
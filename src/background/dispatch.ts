@@ -0,0 +1,137 @@
+/**
+ * Content Script Dispatch - routes messages to a specific tab and frame
+ */
+
+import { logger } from '../core/logger';
+import { AppError, ErrorCode } from '../core/errors';
+import { browser } from 'wxt/browser';
+import { sendMessage, type ExtensionProtocolMapType } from '../../entrypoints/messaging/protocol';
+import { claimTab, type ToolContext } from './sessions';
+
+export interface DispatchTarget {
+  tabId: number;
+  frameId: number;
+}
+
+type ContentMessageType = keyof ExtensionProtocolMapType;
+type ContentMessageData<K extends ContentMessageType> = Parameters<ExtensionProtocolMapType[K]>[0];
+type ContentMessageResult<K extends ContentMessageType> = Awaited<ReturnType<ExtensionProtocolMapType[K]>>;
+
+const CONTENT_SCRIPT_FILE = '/content-scripts/content.js';
+
+/**
+ * Errors raised by the browser when no listener exists in the target frame
+ */
+const NO_RECEIVER_PATTERNS = [
+  'Receiving end does not exist',
+  'Could not establish connection',
+  'No response',
+];
+
+function isNoReceiverError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return NO_RECEIVER_PATTERNS.some((pattern) => message.includes(pattern));
+}
+
+/**
+ * Resolve the tab/frame a tool call should run in (defaults to the active tab's top frame)
+ * and claim the tab for the calling session
+ */
+export async function resolveTarget(tabId?: number, frameId = 0, context?: ToolContext): Promise<DispatchTarget> {
+  if (tabId !== undefined) {
+    claimTab(tabId, context);
+    return { tabId, frameId };
+  }
+
+  const tabs = await browser.tabs.query({ active: true, currentWindow: true });
+  const activeTab = tabs[0];
+  if (activeTab?.id === undefined) {
+    throw new AppError(ErrorCode.NO_ACTIVE_TAB, 'No active tab found');
+  }
+  claimTab(activeTab.id, context);
+  return { tabId: activeTab.id, frameId };
+}
+
+/**
+ * Make sure the target tab still exists
+ */
+async function assertTabExists(tabId: number): Promise<void> {
+  try {
+    await browser.tabs.get(tabId);
+  } catch {
+    throw new AppError(ErrorCode.TAB_NOT_FOUND, `Tab ${tabId} not found`, { tabId });
+  }
+}
+
+/**
+ * Ping the content script in a specific tab/frame
+ */
+export async function pingContentScript(target: DispatchTarget): Promise<boolean> {
+  try {
+    const result = await sendMessage('ping', undefined, target);
+    return result?.pong === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-inject the content script into exactly the target tab/frame if it does not answer
+ */
+export async function ensureContentScriptInjected(target: DispatchTarget): Promise<void> {
+  if (await pingContentScript(target)) {
+    return;
+  }
+
+  logger.info('Dispatch', 'Re-injecting content script', { ...target });
+
+  try {
+    await browser.scripting.executeScript({
+      target: { tabId: target.tabId, frameIds: [target.frameId] },
+      files: [CONTENT_SCRIPT_FILE],
+    });
+  } catch (error) {
+    throw new AppError(
+      ErrorCode.CONTENT_SCRIPT_INJECTION_FAILED,
+      `Failed to inject content script into tab ${target.tabId}: ${error instanceof Error ? error.message : String(error)}`,
+      { ...target }
+    );
+  }
+
+  if (!(await pingContentScript(target))) {
+    throw new AppError(
+      ErrorCode.CONTENT_SCRIPT_NOT_READY,
+      `Content script in tab ${target.tabId} (frame ${target.frameId}) is not responding`,
+      { ...target }
+    );
+  }
+}
+
+/**
+ * Send a message to the content script of a specific tab/frame
+ */
+export async function sendToContentScript<K extends ContentMessageType>(
+  target: DispatchTarget,
+  type: K,
+  data: ContentMessageData<K>
+): Promise<ContentMessageResult<K>> {
+  await assertTabExists(target.tabId);
+  await ensureContentScriptInjected(target);
+
+  try {
+    return await (sendMessage as (
+      type: K,
+      data: ContentMessageData<K>,
+      target: DispatchTarget
+    ) => Promise<ContentMessageResult<K>>)(type, data, target);
+  } catch (error) {
+    if (isNoReceiverError(error)) {
+      throw new AppError(
+        ErrorCode.CONTENT_SCRIPT_NOT_READY,
+        `Content script in tab ${target.tabId} (frame ${target.frameId}) is not ready`,
+        { ...target }
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Browser Identity - how this extension instance registers with the bridge
+ */
+
+import { browser } from 'wxt/browser';
+import { getBrowserId, type BridgeConfig } from '../core/config';
+import type { BrowserIdentity } from '../../types/bridge';
+
+/**
+ * Browser brands recognised in the user agent, most specific first
+ */
+const BROWSER_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Edge', pattern: /Edg\/([\d.]+)/ },
+  { name: 'Opera', pattern: /OPR\/([\d.]+)/ },
+  { name: 'Vivaldi', pattern: /Vivaldi\/([\d.]+)/ },
+  { name: 'Firefox', pattern: /Firefox\/([\d.]+)/ },
+  { name: 'Chrome', pattern: /Chrome\/([\d.]+)/ },
+];
+
+/**
+ * Detect browser name and version
+ */
+async function detectBrowser(): Promise<{ browser: string; version?: string }> {
+  // Firefox exposes exact browser info
+  const runtime = browser.runtime as typeof browser.runtime & {
+    getBrowserInfo?: () => Promise<{ name: string; version: string }>;
+  };
+  if (runtime.getBrowserInfo) {
+    const info = await runtime.getBrowserInfo();
+    return { browser: info.name, version: info.version };
+  }
+
+  const userAgent = navigator.userAgent;
+  for (const { name, pattern } of BROWSER_PATTERNS) {
+    const match = pattern.exec(userAgent);
+    if (match) {
+      return { browser: name, version: match[1] };
+    }
+  }
+  return { browser: 'Unknown' };
+}
+
+/**
+ * Build the identity announced in the bridge hello
+ */
+export async function getBrowserIdentity(config: BridgeConfig): Promise<BrowserIdentity> {
+  const { browser: browserName, version } = await detectBrowser();
+
+  return {
+    id: await getBrowserId(),
+    name: config.name || (config.profile ? `${browserName} (${config.profile})` : browserName),
+    browser: browserName,
+    version,
+    profile: config.profile,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Image Processing - crop and downscale captured screenshots with OffscreenCanvas
+ */
+
+export interface ClipRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessImageOptions {
+  format: 'png' | 'jpeg';
+  quality: number;
+  /** Region to keep, in CSS pixels */
+  clip?: ClipRect;
+  /** Downscale so the output is at most this many pixels wide */
+  maxWidth?: number;
+  /** Device pixels per CSS pixel in the source image */
+  devicePixelRatio?: number;
+}
+
+export interface ProcessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decode a data URL into an ImageBitmap
+ */
+export async function decodeDataUrl(dataUrl: string): Promise<ImageBitmap> {
+  const response = await fetch(dataUrl);
+  return await createImageBitmap(await response.blob());
+}
+
+/**
+ * Encode a canvas as a base64 data URL
+ */
+export async function encodeCanvas(
+  canvas: OffscreenCanvas,
+  format: 'png' | 'jpeg',
+  quality: number
+): Promise<string> {
+  const blob = await canvas.convertToBlob({
+    type: `image/${format}`,
+    quality: format === 'jpeg' ? quality / 100 : undefined,
+  });
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return `data:${blob.type};base64,${btoa(binary)}`;
+}
+
+/**
+ * Crop and/or downscale an image
+ */
+export async function processImage(source: ImageBitmap | OffscreenCanvas, options: ProcessImageOptions): Promise<ProcessedImage> {
+  const ratio = options.devicePixelRatio ?? 1;
+
+  let sx = 0;
+  let sy = 0;
+  let sw = source.width;
+  let sh = source.height;
+
+  if (options.clip) {
+    sx = Math.max(0, Math.round(options.clip.x * ratio));
+    sy = Math.max(0, Math.round(options.clip.y * ratio));
+    sw = Math.min(source.width - sx, Math.round(options.clip.width * ratio));
+    sh = Math.min(source.height - sy, Math.round(options.clip.height * ratio));
+
+    if (sw <= 0 || sh <= 0) {
+      throw new Error('Clip region is outside the captured image');
+    }
+  }
+
+  const scale = options.maxWidth && sw > options.maxWidth ? options.maxWidth / sw : 1;
+  const width = Math.max(1, Math.round(sw * scale));
+  const height = Math.max(1, Math.round(sh * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to create canvas context');
+  }
+  context.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+
+  return {
+    dataUrl: await encodeCanvas(canvas, options.format, options.quality),
+    width,
+    height,
+  };
+}
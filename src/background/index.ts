@@ -8,10 +8,12 @@ import { createBridgeClient } from '../../shared/bridge/client';
 import { globalTaskQueue } from '../concurrency/task-queue';
 import { getTool, getToolNames } from './tools';
 import { generateId } from '../core/id-generator';
-import { handleError } from '../core/errors';
+import { AppError, ErrorCode, handleError } from '../core/errors';
+import { withoutUploadContent } from '../core/files';
 import { browser, type Browser } from 'wxt/browser';
-import type { JsonValue } from '../../types';
-import { sendMessage } from '../../entrypoints/messaging/protocol';
+import { resolveTarget, pingContentScript } from './dispatch';
+import { releaseSession, releaseTab } from './sessions';
+import { getBrowserIdentity } from './identity';
 
 // Register background message handlers
 import '../../entrypoints/messaging/background-handlers';
@@ -33,6 +35,8 @@ export async function initialize() {
   // Initialize bridge client
   bridgeClient = createBridgeClient('extension', config.bridge);
   bridgeClient.setConfig(config.bridge);
+  bridgeClient.setCapabilities(getToolNames());
+  bridgeClient.setIdentity(await getBrowserIdentity(config.bridge));
 
   // Set up message handlers
   bridgeClient.setMessageHandler(handleToolCallFromBridge);
@@ -49,6 +53,12 @@ export async function initialize() {
   // Connect to bridge
   bridgeClient.connect();
 
+  // Forget ownership of closed tabs
+  browser.tabs.onRemoved.addListener((tabId) => releaseTab(tabId));
+
+  // Report tab changes so MCP clients can refresh subscribed resources
+  setupTabEvents();
+
   // Initialize content script health checking
   setupContentScriptHealthCheck();
 
@@ -59,59 +69,72 @@ export async function initialize() {
  * Handle tool calls from the bridge
  */
 async function handleToolCallFromBridge(message: any) {
+  if (message.type === 'session_closed' && message.sessionId) {
+    releaseSession(message.sessionId);
+    return;
+  }
+
   if (message.type !== 'tool_call' || !message.tool) {
     return;
   }
 
-  const { tool, params, id } = message;
+  const { tool, params, id, sessionId } = message;
   currentRequestId = id;
 
-  logger.info('Background', `Executing tool: ${tool}`, { id, params });
+  // Upload contents can be tens of MB: keep them out of the log history and console
+  logger.info('Background', `Executing tool: ${tool}`, { id, sessionId, params: withoutUploadContent(tool, params) });
 
   try {
     // Find and execute tool
     const toolDef = getTool(tool);
     if (!toolDef) {
-      throw new Error(`Unknown tool: ${tool}`);
+      throw new AppError(ErrorCode.UNKNOWN_TOOL, `Unknown tool: ${tool}`);
     }
 
     // Execute with concurrency control
-    const result = await globalTaskQueue.enqueue(
-      () => toolDef.handler(params || {}),
-      { priority: 1 }
-    );
+    const result = toolDef.skipQueue
+      ? await toolDef.handler(params || {}, { sessionId })
+      : await globalTaskQueue.enqueue(
+        () => toolDef.handler(params || {}, { sessionId }),
+        {
+          priority: 1,
+          tabId: typeof params?.tabId === 'number' ? params.tabId : undefined,
+        }
+      );
 
     // Send response
     bridgeClient?.sendResponse(id!, result);
 
-    logger.info('Background', `Tool ${tool} completed successfully`, { id });
+    logger.info('Background', `Tool ${tool} completed successfully`, { id, sessionId });
   } catch (error) {
     const errorResult = handleError(error);
-    bridgeClient?.sendResponse(id!, null, errorResult.error);
+    bridgeClient?.sendResponse(id!, null, errorResult.error, errorResult.code);
 
-    logger.error('Background', `Tool ${tool} failed`, { id, error: errorResult });
+    logger.error('Background', `Tool ${tool} failed`, { id, sessionId, error: errorResult });
   } finally {
     currentRequestId = null;
   }
 }
 
 /**
- * Send message to content script (deprecated - use sendMessage from protocol)
- * This is kept for backward compatibility but should be removed
+ * Forward tab lifecycle events to the bridge
  */
-export async function sendToContentScript<T = JsonValue>(
-  _tabId: number,
-  type: string,
-  _params: Record<string, JsonValue>,
-  _timeout = 30000
-): Promise<T> {
-  // Use the unified messaging protocol
-  // Note: tab-specific routing is not fully supported with @webext-core/messaging
-  // The message will be broadcast to all tabs
-  if (type === 'ping') {
-    return await sendMessage('ping') as T;
-  }
-  throw new Error(`sendToContentScript called with unsupported type: ${type}`);
+function setupTabEvents() {
+  const tabsChanged = () => bridgeClient?.sendEvent('tabs_changed', null);
+
+  browser.tabs.onCreated.addListener(tabsChanged);
+  browser.tabs.onRemoved.addListener(tabsChanged);
+  browser.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+    if (changeInfo.status !== 'complete' && changeInfo.url === undefined && changeInfo.title === undefined) {
+      return;
+    }
+    bridgeClient?.sendEvent('tab_updated', {
+      tabId,
+      url: tab.url ?? null,
+      title: tab.title ?? null,
+      status: tab.status ?? null,
+    });
+  });
 }
 
 /**
@@ -126,12 +149,12 @@ export async function getCurrentTab(): Promise<Browser.tabs.Tab | undefined> {
  * Setup content script health checking
  */
 function setupContentScriptHealthCheck() {
-  // Ping active tabs periodically to check content script status
+  // Ping the active tab periodically to check content script status
   setInterval(async () => {
     try {
-      const result = await sendMessage('ping');
-      if (!result.pong) {
-        logger.warn('Background', 'Content script not responding');
+      const target = await resolveTarget();
+      if (!(await pingContentScript(target))) {
+        logger.warn('Background', 'Content script not responding', { ...target });
       }
     } catch (error) {
       logger.debug('Background', 'Health check failed', { error });
@@ -139,32 +162,6 @@ function setupContentScriptHealthCheck() {
   }, 60000); // Check every minute
 }
 
-/**
- * Re-inject content script if needed
- */
-export async function ensureContentScriptInjected(tabId: number): Promise<boolean> {
-  try {
-    await sendMessage('ping');
-    return true;
-  } catch (error) {
-    logger.info('Background', 'Re-injecting content script', { tabId });
-
-    try {
-      await browser.scripting.executeScript({
-        target: { tabId },
-        files: ['/content-scripts/content.js'],
-      });
-      return true;
-    } catch (injectError) {
-      logger.error('Background', 'Failed to inject content script', {
-        tabId,
-        error: injectError,
-      });
-      return false;
-    }
-  }
-}
-
 /**
  * Get available tools
  */
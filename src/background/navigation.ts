@@ -0,0 +1,267 @@
+/**
+ * Navigation Tracking - wait for a tab to reach a load state and report the outcome
+ *
+ * Listens to webNavigation for the main frame's lifecycle and to webRequest for
+ * the document's HTTP status and in-flight requests (network idle). webRequest
+ * is an optional permission: without it, results carry no status and
+ * networkidle cannot be waited for.
+ */
+
+import { browser } from 'wxt/browser';
+import { AppError, ErrorCode } from '../core/errors';
+import { grantHint, requestPermission } from './permissions';
+
+export type WaitUntil = 'commit' | 'domcontentloaded' | 'load' | 'networkidle';
+
+export interface NavigationResult {
+  tabId: number;
+  url: string;
+  title: string;
+  status?: number;
+  /** False if waitUntil was networkidle and the network never went quiet */
+  networkIdle?: boolean;
+}
+
+interface TabNavigationState {
+  committed: boolean;
+  domContentLoaded: boolean;
+  loaded: boolean;
+  loadedAt?: number;
+  error?: string;
+  errorAt?: number;
+  status?: number;
+  requests: Set<string>;
+  lastNetworkActivity: number;
+}
+
+// No requests for this long counts as network idle
+const NETWORK_QUIET_MS = 500;
+const POLL_INTERVAL_MS = 100;
+
+// An aborted load followed quickly by a commit was replaced by our navigation, not failed
+const ABORT_GRACE_MS = 1000;
+const ABORTED_ERRORS = ['net::ERR_ABORTED', 'NS_BINDING_ABORTED'];
+
+/**
+ * Collects navigation events for all tabs from creation until disposed.
+ * Start watching before navigating so no early event is missed.
+ */
+export class NavigationWatcher {
+  private states = new Map<number, TabNavigationState>();
+  private removers: Array<() => void> = [];
+
+  constructor() {
+    // A new navigation starts over (earlier events belonged to the previous page)
+    this.listen(browser.webNavigation.onBeforeNavigate, (details) => {
+      if (details.frameId !== 0) return;
+      const state = this.getState(details.tabId);
+      state.committed = false;
+      state.domContentLoaded = false;
+      state.loaded = false;
+      state.loadedAt = undefined;
+      state.status = undefined;
+    });
+
+    this.listen(browser.webNavigation.onCommitted, (details) => {
+      if (details.frameId !== 0) return;
+      const state = this.getState(details.tabId);
+      state.committed = true;
+      state.error = undefined;
+      // Requests from the previous document no longer matter
+      state.requests.clear();
+      state.lastNetworkActivity = Date.now();
+    });
+
+    this.listen(browser.webNavigation.onDOMContentLoaded, (details) => {
+      if (details.frameId !== 0) return;
+      this.getState(details.tabId).domContentLoaded = true;
+    });
+
+    this.listen(browser.webNavigation.onCompleted, (details) => {
+      if (details.frameId !== 0) return;
+      const state = this.getState(details.tabId);
+      state.loaded = true;
+      state.loadedAt = Date.now();
+    });
+
+    this.listen(browser.webNavigation.onErrorOccurred, (details) => {
+      if (details.frameId !== 0) return;
+      const state = this.getState(details.tabId);
+      state.error = details.error;
+      state.errorAt = Date.now();
+    });
+
+    // Same-document navigations (hash changes, history.pushState) complete at once
+    const sameDocument = (details: { tabId: number; frameId: number }) => {
+      if (details.frameId !== 0) return;
+      const state = this.getState(details.tabId);
+      state.committed = true;
+      state.domContentLoaded = true;
+      state.loaded = true;
+      state.loadedAt = Date.now();
+    };
+    this.listen(browser.webNavigation.onReferenceFragmentUpdated, sameDocument);
+    this.listen(browser.webNavigation.onHistoryStateUpdated, sameDocument);
+
+    // chrome.webRequest only exists once the optional permission is granted
+    if (!browser.webRequest) {
+      return;
+    }
+
+    const filter = { urls: ['<all_urls>'] };
+    this.listen(browser.webRequest.onHeadersReceived, (details) => {
+      if (details.type === 'main_frame' && details.tabId >= 0) {
+        // Last response wins: the final status after redirects
+        this.getState(details.tabId).status = details.statusCode;
+      }
+    }, filter);
+
+    this.listen(browser.webRequest.onBeforeRequest, (details) => {
+      if (details.tabId < 0) return;
+      const state = this.getState(details.tabId);
+      state.requests.add(details.requestId);
+      state.lastNetworkActivity = Date.now();
+    }, filter);
+
+    const requestDone = (details: { tabId: number; requestId: string }) => {
+      if (details.tabId < 0) return;
+      const state = this.getState(details.tabId);
+      state.requests.delete(details.requestId);
+      state.lastNetworkActivity = Date.now();
+    };
+    this.listen(browser.webRequest.onCompleted, requestDone, filter);
+    this.listen(browser.webRequest.onErrorOccurred, requestDone, filter);
+  }
+
+  /**
+   * Wait until the tab's navigation reaches `waitUntil`.
+   * Throws TAB_LOAD_FAILED if the navigation fails or does not get there in time.
+   */
+  async wait(tabId: number, waitUntil: WaitUntil, timeout: number, networkIdleTimeout: number): Promise<NavigationResult> {
+    const started = Date.now();
+
+    while (true) {
+      const state = this.getState(tabId);
+
+      if (state.error && (!ABORTED_ERRORS.includes(state.error) || Date.now() - state.errorAt! >= ABORT_GRACE_MS)) {
+        throw new AppError(ErrorCode.TAB_LOAD_FAILED, `Navigation failed: ${state.error}`, { tabId, error: state.error });
+      }
+
+      if (this.hasReached(state, waitUntil)) {
+        return this.result(tabId, state, waitUntil === 'networkidle' ? true : undefined);
+      }
+
+      // An idle network is optional (pages may poll forever); waiting for it is bounded separately
+      if (waitUntil === 'networkidle' && state.loadedAt !== undefined && Date.now() - state.loadedAt >= networkIdleTimeout) {
+        return this.result(tabId, state, false);
+      }
+
+      if (Date.now() - started >= timeout) {
+        throw new AppError(
+          ErrorCode.TAB_LOAD_FAILED,
+          `Timed out after ${timeout}ms waiting for "${waitUntil}"`,
+          { tabId, waitUntil, timeout }
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Stop listening
+   */
+  dispose() {
+    this.removers.forEach((remove) => remove());
+    this.removers = [];
+    this.states.clear();
+  }
+
+  private hasReached(state: TabNavigationState, waitUntil: WaitUntil): boolean {
+    switch (waitUntil) {
+      case 'commit':
+        return state.committed;
+      case 'domcontentloaded':
+        return state.domContentLoaded || state.loaded;
+      case 'load':
+        return state.loaded;
+      case 'networkidle':
+        return state.loaded
+          && state.requests.size === 0
+          && Date.now() - state.lastNetworkActivity >= NETWORK_QUIET_MS;
+    }
+  }
+
+  private async result(tabId: number, state: TabNavigationState, networkIdle?: boolean): Promise<NavigationResult> {
+    const tab = await browser.tabs.get(tabId);
+    return {
+      tabId,
+      url: tab.url || tab.pendingUrl || '',
+      title: tab.title || '',
+      ...(state.status !== undefined && { status: state.status }),
+      ...(networkIdle !== undefined && { networkIdle }),
+    };
+  }
+
+  private getState(tabId: number): TabNavigationState {
+    let state = this.states.get(tabId);
+    if (!state) {
+      state = {
+        committed: false,
+        domContentLoaded: false,
+        loaded: false,
+        requests: new Set(),
+        lastNetworkActivity: Date.now(),
+      };
+      this.states.set(tabId, state);
+    }
+    return state;
+  }
+
+  private listen<T extends (...args: never[]) => unknown, Extra extends unknown[]>(
+    event: { addListener: (callback: T, ...extra: Extra) => void; removeListener: (callback: T) => void },
+    callback: (...args: Parameters<T>) => void,
+    ...extra: Extra
+  ) {
+    // Observers only: webRequest listeners never block or modify requests
+    const listener = callback as T;
+    event.addListener(listener, ...extra);
+    this.removers.push(() => event.removeListener(listener));
+  }
+}
+
+/**
+ * Start a navigation and wait for it. `start` performs the navigation and returns
+ * the tab it happens in; its errors are reported as TAB_LOAD_FAILED.
+ */
+export async function trackNavigation(
+  start: () => Promise<number>,
+  options: { waitUntil: WaitUntil; timeout: number; networkIdleTimeout: number }
+): Promise<NavigationResult> {
+  // Asked for on every navigation: it is only granted outside tool calls, and the status comes with it
+  const tracksRequests = await requestPermission('webRequest');
+  if (options.waitUntil === 'networkidle' && !tracksRequests) {
+    throw new AppError(
+      ErrorCode.INVALID_INPUT,
+      `waitUntil "networkidle" needs the optional webRequest permission; ${grantHint('webRequest')}`
+    );
+  }
+
+  // Watch before navigating so early events are not missed
+  const watcher = new NavigationWatcher();
+  try {
+    let tabId: number;
+    try {
+      tabId = await start();
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(ErrorCode.TAB_LOAD_FAILED, error instanceof Error ? error.message : String(error));
+    }
+
+    return await watcher.wait(tabId, options.waitUntil, options.timeout, options.networkIdleTimeout);
+  } finally {
+    watcher.dispose();
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Optional Permissions - granted by the user for the features that need them
+ *
+ * Chrome only shows the permission prompt during a user gesture, which tool
+ * calls never are. The request below succeeds when the permission was already
+ * granted; otherwise the user grants it from the extension's service worker
+ * console (see README, Permissions).
+ */
+
+import { browser } from 'wxt/browser';
+import { logger } from '../core/logger';
+
+export type OptionalPermission = 'debugger' | 'webRequest';
+
+/**
+ * Whether an optional permission is granted
+ */
+async function hasPermission(permission: OptionalPermission): Promise<boolean> {
+  try {
+    return await browser.permissions.contains({ permissions: [permission] });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Make sure an optional permission is granted, asking for it if the browser allows; false if it is not
+ */
+export async function requestPermission(permission: OptionalPermission): Promise<boolean> {
+  if (await hasPermission(permission)) {
+    return true;
+  }
+  try {
+    return await browser.permissions.request({ permissions: [permission] });
+  } catch (error) {
+    // Outside a user gesture the request is refused without a prompt
+    logger.debug('Permissions', 'Permission request refused', {
+      permission,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * How to grant a permission by hand, for error messages
+ */
+export function grantHint(permission: OptionalPermission): string {
+  return `grant it by running chrome.permissions.request({ permissions: ['${permission}'] }) in the extension's service worker console`;
+}
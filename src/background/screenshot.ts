@@ -0,0 +1,203 @@
+/**
+ * Screenshot Capture - visible area, full page and element screenshots
+ */
+
+import { logger } from '../core/logger';
+import { browser, type Browser } from 'wxt/browser';
+import type { Locator, ScreenshotResult } from '../../types/tools';
+import type { PageMetrics } from '../content/page-info';
+import { sendToContentScript, type DispatchTarget } from './dispatch';
+import { decodeDataUrl, processImage, type ClipRect } from './image';
+
+export interface ScreenshotOptions {
+  format: 'png' | 'jpeg';
+  quality: number;
+  fullPage?: boolean;
+  element?: { selector?: string; ref?: string; locator?: Locator };
+  clip?: ClipRect;
+  maxWidth?: number;
+}
+
+// captureVisibleTab is rate limited to two calls per second
+const CAPTURE_INTERVAL_MS = 550;
+
+// Largest canvas height browsers reliably allocate
+const MAX_CANVAS_HEIGHT = 16384;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Capture the visible viewport of a tab as an ImageBitmap
+ */
+async function captureViewport(tab: Browser.tabs.Tab): Promise<ImageBitmap> {
+  const dataUrl = await browser.tabs.captureVisibleTab(tab.windowId!, { format: 'png' });
+  return await decodeDataUrl(dataUrl);
+}
+
+/**
+ * Scroll through the page and stitch viewport captures into one canvas
+ */
+async function captureFullPage(
+  tab: Browser.tabs.Tab,
+  target: DispatchTarget,
+  metrics: PageMetrics,
+  x = metrics.scrollX
+): Promise<{ canvas: OffscreenCanvas; ratio: number; scrollX: number; truncated: boolean }> {
+  let canvas: OffscreenCanvas | null = null;
+  let context: OffscreenCanvasRenderingContext2D | null = null;
+  let ratio = 1;
+  let scrollX = x;
+  let truncated = false;
+  let lastCapture = 0;
+
+  try {
+    for (let y = 0; y < metrics.pageHeight; y += metrics.viewportHeight) {
+      const position = await sendToContentScript(target, 'scroll_to', { x, y });
+      scrollX = position.scrollX;
+
+      const wait = CAPTURE_INTERVAL_MS - (Date.now() - lastCapture);
+      if (wait > 0) {
+        await delay(wait);
+      }
+      const bitmap = await captureViewport(tab);
+      lastCapture = Date.now();
+
+      try {
+        if (!canvas) {
+          ratio = bitmap.width / metrics.viewportWidth;
+          const height = Math.round(metrics.pageHeight * ratio);
+          truncated = height > MAX_CANVAS_HEIGHT;
+          canvas = new OffscreenCanvas(bitmap.width, Math.min(height, MAX_CANVAS_HEIGHT));
+          context = canvas.getContext('2d');
+          if (!context) {
+            throw new Error('Failed to create canvas context');
+          }
+        }
+
+        const offset = Math.round(position.scrollY * ratio);
+        context!.drawImage(bitmap, 0, offset);
+
+        if (offset + bitmap.height >= canvas.height || position.scrollY < y) {
+          // Reached the canvas limit or the page cannot scroll any further
+          break;
+        }
+      } finally {
+        bitmap.close();
+      }
+    }
+  } finally {
+    await sendToContentScript(target, 'scroll_to', { x: metrics.scrollX, y: metrics.scrollY }).catch((error) => {
+      logger.debug('Screenshot', 'Failed to restore scroll position', { error });
+    });
+  }
+
+  return { canvas: canvas!, ratio, scrollX, truncated };
+}
+
+/**
+ * Capture a screenshot of a tab
+ */
+export async function captureScreenshot(
+  tab: Browser.tabs.Tab,
+  options: ScreenshotOptions
+): Promise<ScreenshotResult> {
+  if (!tab.active) {
+    // captureVisibleTab only sees the active tab of a window
+    await browser.tabs.update(tab.id!, { active: true });
+  }
+
+  const target: DispatchTarget = { tabId: tab.id!, frameId: 0 };
+
+  // Plain viewport capture
+  if (!options.fullPage && !options.element) {
+    const dataUrl = await browser.tabs.captureVisibleTab(tab.windowId!, {
+      format: options.format,
+      quality: options.quality,
+    });
+    const bitmap = await decodeDataUrl(dataUrl);
+
+    try {
+      if (!options.clip && !options.maxWidth) {
+        return { dataUrl, width: bitmap.width, height: bitmap.height };
+      }
+      return await processImage(bitmap, {
+        format: options.format,
+        quality: options.quality,
+        clip: options.clip,
+        maxWidth: options.maxWidth,
+        devicePixelRatio: tab.width ? bitmap.width / tab.width : 1,
+      });
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  const metrics = await sendToContentScript(target, 'get_page_metrics', undefined);
+  let clip = options.clip;
+  let elementRect: ClipRect | undefined;
+
+  if (options.element) {
+    const result = await sendToContentScript(target, 'get_element_rect', options.element);
+    if (!result.success || !result.rect) {
+      throw new Error(result.error || 'Element not found');
+    }
+    const rect = result.rect;
+
+    if (!options.fullPage && rect.height <= metrics.viewportHeight && rect.width <= metrics.viewportWidth) {
+      // Center the element in the viewport and crop a single capture
+      const position = await sendToContentScript(target, 'scroll_to', {
+        x: rect.x - (metrics.viewportWidth - rect.width) / 2,
+        y: rect.y - (metrics.viewportHeight - rect.height) / 2,
+      });
+      await delay(100);
+
+      const bitmap = await captureViewport(tab);
+      try {
+        return await processImage(bitmap, {
+          format: options.format,
+          quality: options.quality,
+          clip: {
+            x: rect.x - position.scrollX,
+            y: rect.y - position.scrollY,
+            width: rect.width,
+            height: rect.height,
+          },
+          maxWidth: options.maxWidth,
+          devicePixelRatio: bitmap.width / metrics.viewportWidth,
+        });
+      } finally {
+        bitmap.close();
+        await sendToContentScript(target, 'scroll_to', { x: metrics.scrollX, y: metrics.scrollY });
+      }
+    }
+
+    // Element larger than the viewport: crop it out of a full page capture
+    elementRect = rect;
+  }
+
+  const { canvas, ratio, scrollX, truncated } = await captureFullPage(
+    tab,
+    target,
+    metrics,
+    elementRect ? elementRect.x : 0
+  );
+
+  if (elementRect) {
+    clip = {
+      x: elementRect.x - scrollX,
+      y: elementRect.y,
+      width: Math.min(elementRect.width, metrics.viewportWidth),
+      height: elementRect.height,
+    };
+  }
+
+  const processed = await processImage(canvas, {
+    format: options.format,
+    quality: options.quality,
+    clip,
+    maxWidth: options.maxWidth,
+    devicePixelRatio: ratio,
+  });
+
+  return { ...processed, ...(truncated && { truncated }) };
+}
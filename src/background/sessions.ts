@@ -0,0 +1,69 @@
+/**
+ * Session Tab Ownership - each MCP session owns the tabs it works in
+ *
+ * The bridge tags every tool call with the originating MCP session. A tab is
+ * claimed by the first session that acts on it and stays owned until the tab
+ * closes or the session disconnects; other sessions get TAB_OWNED_BY_OTHER_SESSION.
+ * Calls without a session (e.g. from the extension UI) are never restricted.
+ */
+
+import { logger } from '../core/logger';
+import { AppError, ErrorCode } from '../core/errors';
+
+export interface ToolContext {
+  /** MCP session the call originates from */
+  sessionId?: string;
+}
+
+const tabOwners = new Map<number, string>();
+
+/**
+ * Claim a tab for the calling session, failing if another session owns it
+ */
+export function claimTab(tabId: number, context: ToolContext = {}): void {
+  const { sessionId } = context;
+  if (!sessionId) {
+    return;
+  }
+
+  const owner = tabOwners.get(tabId);
+  if (owner && owner !== sessionId) {
+    throw new AppError(
+      ErrorCode.TAB_OWNED_BY_OTHER_SESSION,
+      `Tab ${tabId} is in use by another session`,
+      { tabId }
+    );
+  }
+
+  if (!owner) {
+    tabOwners.set(tabId, sessionId);
+    logger.debug('Sessions', 'Tab claimed', { tabId, sessionId });
+  }
+}
+
+/**
+ * Whether a tab is owned by a session other than the caller's
+ */
+export function isOwnedByOtherSession(tabId: number, context: ToolContext = {}): boolean {
+  const owner = tabOwners.get(tabId);
+  return owner !== undefined && context.sessionId !== undefined && owner !== context.sessionId;
+}
+
+/**
+ * Forget a closed tab
+ */
+export function releaseTab(tabId: number): void {
+  tabOwners.delete(tabId);
+}
+
+/**
+ * Release every tab owned by a session that has disconnected
+ */
+export function releaseSession(sessionId: string): void {
+  for (const [tabId, owner] of tabOwners) {
+    if (owner === sessionId) {
+      tabOwners.delete(tabId);
+    }
+  }
+  logger.info('Sessions', 'Session released', { sessionId });
+}
@@ -0,0 +1,62 @@
+/**
+ * Run Steps - checks run_steps applies to its steps and their results
+ */
+
+import type { JsonValue } from '../../types';
+
+/**
+ * Whether a step may run a tool: any tool of the table but run_steps itself.
+ * Own keys only, so "toString" or "__proto__" are not taken for tools.
+ */
+export function isStepTool(name: string, tools: object): boolean {
+  return name !== 'run_steps' && Object.hasOwn(tools, name);
+}
+
+/**
+ * Read a dot path ("content.title", "items.0.name") from a result
+ */
+export function getPath(value: JsonValue, path?: string): JsonValue | undefined {
+  if (!path) {
+    return value;
+  }
+
+  let current: JsonValue | undefined = value;
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = Array.isArray(current) ? current[Number(key)] : current[key];
+  }
+  return current;
+}
+
+/**
+ * Whether a step result passes an assertion (every check it sets must hold)
+ */
+export function checkAssertion(
+  result: JsonValue,
+  assertion: { path?: string; equals?: JsonValue; contains?: string; matches?: string; exists?: boolean }
+): boolean {
+  const actual = getPath(result, assertion.path);
+  const text = typeof actual === 'string' ? actual : JSON.stringify(actual ?? null);
+
+  if (assertion.exists !== undefined && (actual !== undefined && actual !== null) !== assertion.exists) {
+    return false;
+  }
+  if (assertion.equals !== undefined && JSON.stringify(actual) !== JSON.stringify(assertion.equals)) {
+    return false;
+  }
+  if (assertion.contains !== undefined && !text.includes(assertion.contains)) {
+    return false;
+  }
+  if (assertion.matches !== undefined) {
+    try {
+      if (!new RegExp(assertion.matches).test(text)) {
+        return false;
+      }
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
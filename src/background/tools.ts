@@ -1,123 +1,187 @@
-import { logger } from '../core/logger';
-import { AppError, ErrorCode } from '../core/errors';
+import { logger, LogLevel, type LogEntry } from '../core/logger';
+import { AppError, ErrorCode, handleError } from '../core/errors';
 import { Schemas } from '../core/validator';
 import { browser, type Browser } from 'wxt/browser';
 import type { JsonValue } from '../../types';
-import { sendMessage } from '../../entrypoints/messaging/protocol';
+import type { Locator } from '../../types/tools';
+import { resolveTarget, sendToContentScript, type DispatchTarget } from './dispatch';
+import { captureScreenshot } from './screenshot';
+import { claimTab, isOwnedByOtherSession, type ToolContext } from './sessions';
+import { TOOL_SPECS, type ToolName, type ToolSpec } from '../../shared/tools';
+import { globalTaskQueue } from '../concurrency/task-queue';
+import { loadConfig } from '../core/config';
+import { trackNavigation } from './navigation';
+import { trustedClick, trustedDrag, trustedMove, trustedPressChords, trustedPressKey, trustedType } from './trusted-input';
+import { parseKeySequence } from '../core/keyboard';
+import { base64Size, guessMimeType, MAX_UPLOAD_BYTES } from '../core/files';
+import { checkAssertion, getPath, isStepTool } from './steps';
 
 export interface ToolHandler<T = JsonValue> {
-  (params: Record<string, JsonValue>): Promise<T>;
+  (params: Record<string, JsonValue>, context: ToolContext): Promise<T>;
 }
 
 
-export interface ToolDefinition {
-  name: string;
-  description: string;
+export interface ToolDefinition extends ToolSpec {
   handler: ToolHandler;
-  schema?: typeof Schemas[keyof typeof Schemas];
+  /** Run outside the task queue (the tool queues its own work) */
+  skipQueue?: boolean;
 }
 
 /**
  * Navigate to a URL
  */
-export const navigateTool: ToolHandler = async (params) => {
+export const navigateTool: ToolHandler = async (params, context) => {
   const validated = Schemas.navigate.parse(params);
 
-  logger.info('Tool:navigate', 'Navigating to URL', { url: validated.url });
+  const waitUntil = validated.waitUntil ?? 'load';
+  const { timeouts } = await loadConfig();
 
-  try {
+  logger.info('Tool:navigate', 'Navigating to URL', { url: validated.url, waitUntil });
+
+  if (validated.tabId) {
+    claimTab(validated.tabId, context);
+  }
+
+  const result = await trackNavigation(async () => {
     if (validated.tabId) {
-      await browser.tabs.update(validated.tabId, { url: validated.url });
-      await browser.tabs.update(validated.tabId, { active: true });
-    } else {
-      await browser.tabs.create({ url: validated.url });
+      await browser.tabs.update(validated.tabId, { url: validated.url, active: true });
+      return validated.tabId;
     }
-    return { success: true } as unknown as JsonValue;
+    const tab = await browser.tabs.create({ url: validated.url });
+    claimTab(tab.id!, context);
+    return tab.id!;
+  }, {
+    waitUntil,
+    timeout: validated.timeout ?? timeouts.pageLoad,
+    networkIdleTimeout: timeouts.networkIdle,
+  });
+
+  return { success: true, ...result } as unknown as JsonValue;
+};
+
+/**
+ * Run an input call with trusted events (chrome.debugger) when requested per call or
+ * by the input.trusted config, falling back to synthetic events if the debugger is unavailable
+ */
+async function withInputMode(
+  requested: boolean | undefined,
+  trusted: () => Promise<unknown>,
+  synthetic: () => Promise<unknown>
+): Promise<JsonValue> {
+  const { input } = await loadConfig();
+  if (!(requested ?? input.trusted)) {
+    return await synthetic() as JsonValue;
+  }
+
+  try {
+    return { ...(await trusted() as object), input: 'trusted' } as JsonValue;
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+    if (!(error instanceof AppError && error.code === ErrorCode.TRUSTED_INPUT_UNAVAILABLE)) {
+      throw error;
+    }
+    logger.warn('TrustedInput', 'Falling back to synthetic input', { reason: error.message });
+    return { ...(await synthetic() as object), input: 'synthetic', fallbackReason: error.message } as JsonValue;
   }
-};
+}
 
 /**
- * Helper to get target tab ID
+ * Center of an element in the tab's top-level viewport, for trusted input
  */
-async function getTargetTabId(tabId?: number): Promise<number> {
-  if (tabId) return tabId;
-  const tabs = await browser.tabs.query({ active: true, currentWindow: true });
-  const activeTab = tabs[0];
-  if (!activeTab?.id) {
-    throw new Error('No active tab found');
+async function getClickPoint(
+  target: DispatchTarget,
+  element: { selector?: string; ref?: string; locator?: Locator },
+  waitForClickable = true
+): Promise<{ success: boolean; point?: { x: number; y: number }; error?: string }> {
+  const result = await sendToContentScript(target, 'get_click_point', { ...element, waitForClickable });
+  if (result.success && !result.point) {
+    throw new AppError(ErrorCode.TRUSTED_INPUT_UNAVAILABLE, 'The element is inside a cross-origin frame');
   }
-  return activeTab.id;
+  return result;
 }
 
 /**
  * Click an element
  */
-export const clickTool: ToolHandler = async (params) => {
+export const clickTool: ToolHandler = async (params, context) => {
   const validated = Schemas.click.parse(params);
-  const targetTabId = await getTargetTabId(validated.tabId);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+  const element = { selector: validated.selector, ref: validated.ref, locator: validated.locator };
 
-  return await sendMessage(
-    'click',
-    {
-      selector: validated.selector,
-      tabId: targetTabId,
+  return await withInputMode(
+    validated.trusted,
+    async () => {
+      const located = await getClickPoint(target, element);
+      if (!located.point) {
+        return located;
+      }
+      await trustedClick(target.tabId, located.point.x, located.point.y);
+      return { success: true };
     },
-    targetTabId
-  ) as unknown as JsonValue;
+    () => sendToContentScript(target, 'click', { ...element, tabId: target.tabId })
+  );
 };
 
 /**
  * Click at coordinates
  */
-export const clickAtTool: ToolHandler = async (params) => {
+export const clickAtTool: ToolHandler = async (params, context) => {
   const validated = Schemas.clickAt.parse(params);
-  const targetTabId = await getTargetTabId(validated.tabId);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
 
-  return await sendMessage(
-    'click_at',
-    {
-      x: validated.x,
-      y: validated.y,
-      tabId: targetTabId,
+  return await withInputMode(
+    validated.trusted,
+    async () => {
+      // Coordinates are relative to the target frame's viewport
+      const offset = target.frameId === 0
+        ? { x: 0, y: 0 }
+        : await sendToContentScript(target, 'get_frame_offset', undefined);
+      if (!offset) {
+        throw new AppError(ErrorCode.TRUSTED_INPUT_UNAVAILABLE, 'The frame is inside a cross-origin frame');
+      }
+      await trustedClick(target.tabId, offset.x + validated.x, offset.y + validated.y);
+      return { success: true };
     },
-    targetTabId
-  ) as unknown as JsonValue;
+    () => sendToContentScript(target, 'click_at', { x: validated.x, y: validated.y, tabId: target.tabId })
+  );
 };
 
 /**
  * Fill an input field
  */
-export const fillTool: ToolHandler = async (params) => {
+export const fillTool: ToolHandler = async (params, context) => {
   const validated = Schemas.fill.parse(params);
-  const targetTabId = await getTargetTabId(validated.tabId);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
 
-  return await sendMessage(
+  return await sendToContentScript(
+    target,
     'fill',
     {
       selector: validated.selector,
+      ref: validated.ref,
+      locator: validated.locator,
       value: validated.value,
-      tabId: targetTabId,
-    },
-    targetTabId
+      tabId: target.tabId,
+    }
   ) as unknown as JsonValue;
 };
 
 /**
  * Get page content
  */
-export const getPageContentTool: ToolHandler = async (params) => {
+export const getPageContentTool: ToolHandler = async (params, context) => {
   const validated = Schemas.getPageContent.parse(params);
-  const targetTabId = await getTargetTabId(validated.tabId);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
 
-  const result = await sendMessage(
+  const result = await sendToContentScript(
+    target,
     'get_page_content',
     {
       selector: validated.selector,
-      tabId: targetTabId,
-    },
-    targetTabId
+      format: validated.format,
+      maxLength: validated.maxLength,
+      cursor: validated.cursor,
+      tabId: target.tabId,
+    }
   );
 
   if (result.success && result.content) {
@@ -130,36 +194,53 @@ export const getPageContentTool: ToolHandler = async (params) => {
   return result as unknown as JsonValue;
 };
 
+/**
+ * Get an accessibility snapshot
+ */
+export const snapshotTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.snapshot.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'snapshot',
+    {
+      selector: validated.selector,
+      interactiveOnly: validated.interactiveOnly,
+      tabId: target.tabId,
+    }
+  ) as unknown as JsonValue;
+};
+
 /**
  * Take a screenshot
  */
-export const screenshotTool: ToolHandler = async (params) => {
+export const screenshotTool: ToolHandler = async (params, context) => {
   const validated = Schemas.screenshot.parse(params);
 
   try {
-    let tabId = validated.tabId;
-    if (tabId === undefined) {
-      tabId = await getTargetTabId();
-    }
+    const { tabId } = await resolveTarget(validated.tabId, 0, context);
 
     const tab = await browser.tabs.get(tabId);
     if (!tab?.windowId) {
       return { success: false, error: 'No active tab or window found' } as unknown as JsonValue;
     }
 
-    const window = await browser.windows.get(tab.windowId);
-    const dataUrl = await browser.tabs.captureVisibleTab(tab.windowId, {
+    const hasElement = validated.selector !== undefined || validated.ref !== undefined || validated.locator !== undefined;
+    const screenshot = await captureScreenshot(tab, {
       format: validated.format || 'png',
       quality: validated.quality || 90,
+      fullPage: validated.fullPage,
+      element: hasElement
+        ? { selector: validated.selector, ref: validated.ref, locator: validated.locator }
+        : undefined,
+      clip: validated.clip,
+      maxWidth: validated.maxWidth,
     });
 
     return {
       success: true,
-      screenshot: {
-        dataUrl,
-        width: window.width || 0,
-        height: window.height || 0,
-      },
+      screenshot: { ...screenshot },
     } as JsonValue;
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
@@ -169,30 +250,46 @@ export const screenshotTool: ToolHandler = async (params) => {
 /**
  * List all tabs
  */
-export const listTabsTool: ToolHandler = async (params) => {
+export const listTabsTool: ToolHandler = async (params, context) => {
   const validated = Schemas.listTabs.parse(params);
 
   try {
     const query = validated.activeOnly ? { active: true } : {};
     const tabs = await browser.tabs.query(query);
-    const tabsList = tabs.map((tab) => ({
-      id: tab.id!,
-      url: tab.url || '',
-      title: tab.title || '',
-      active: tab.active,
-    }));
-    return tabsList as unknown as JsonValue;
+    return tabs.map((tab) => toTabInfo(tab, context)) as unknown as JsonValue;
   } catch (error) {
     return [] as unknown as JsonValue;
   }
 };
 
+/**
+ * Describe a tab for tool results
+ */
+function toTabInfo(tab: Browser.tabs.Tab, context: ToolContext) {
+  return {
+    id: tab.id!,
+    windowId: tab.windowId,
+    index: tab.index,
+    url: tab.url || tab.pendingUrl || '',
+    title: tab.title || '',
+    active: tab.active,
+    status: tab.status ?? 'unknown',
+    pinned: tab.pinned,
+    audible: tab.audible ?? false,
+    ...(tab.favIconUrl && { favIconUrl: tab.favIconUrl }),
+    ...(tab.incognito && { incognito: true }),
+    ...(isOwnedByOtherSession(tab.id!, context) && { ownedByOtherSession: true }),
+  };
+}
+
 /**
  * Activate a tab
  */
-export const activateTabTool: ToolHandler = async (params) => {
+export const activateTabTool: ToolHandler = async (params, context) => {
   const validated = Schemas.activateTab.parse(params);
 
+  claimTab(validated.tabId, context);
+
   try {
     await browser.tabs.update(validated.tabId, { active: true });
     const tab = await browser.tabs.get(validated.tabId);
@@ -208,15 +305,17 @@ export const activateTabTool: ToolHandler = async (params) => {
 /**
  * Reload a tab
  */
-export const reloadTool: ToolHandler = async (params) => {
+export const reloadTool: ToolHandler = async (params, context) => {
   const validated = Schemas.reload.parse(params);
 
   try {
     if (validated.tabId) {
+      claimTab(validated.tabId, context);
       await browser.tabs.reload(validated.tabId);
     } else {
       const tabs = await browser.tabs.query({ active: true, currentWindow: true });
       if (tabs[0]?.id) {
+        claimTab(tabs[0].id, context);
         await browser.tabs.reload(tabs[0].id);
       }
     }
@@ -226,138 +325,835 @@ export const reloadTool: ToolHandler = async (params) => {
   }
 };
 
+/**
+ * Go back or forward in a tab's history and wait for the page
+ */
+async function traverseHistory(
+  direction: 'back' | 'forward',
+  params: Record<string, JsonValue>,
+  context: ToolContext
+): Promise<JsonValue> {
+  const validated = (direction === 'back' ? Schemas.goBack : Schemas.goForward).parse(params);
+  const { tabId } = await resolveTarget(validated.tabId, 0, context);
+  const { timeouts } = await loadConfig();
+
+  const result = await trackNavigation(async () => {
+    if (direction === 'back') {
+      await browser.tabs.goBack(tabId);
+    } else {
+      await browser.tabs.goForward(tabId);
+    }
+    return tabId;
+  }, {
+    waitUntil: validated.waitUntil ?? 'load',
+    timeout: validated.timeout ?? timeouts.pageLoad,
+    networkIdleTimeout: timeouts.networkIdle,
+  });
+
+  return { success: true, ...result } as unknown as JsonValue;
+}
+
+/**
+ * Go back in history
+ */
+export const goBackTool: ToolHandler = (params, context) => traverseHistory('back', params, context);
+
+/**
+ * Go forward in history
+ */
+export const goForwardTool: ToolHandler = (params, context) => traverseHistory('forward', params, context);
+
+/**
+ * Open a new tab
+ */
+export const newTabTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.newTab.parse(params);
+  const createProperties = {
+    active: !validated.background,
+    ...(validated.windowId !== undefined && { windowId: validated.windowId }),
+  };
+
+  if (!validated.url) {
+    try {
+      const tab = await browser.tabs.create(createProperties);
+      claimTab(tab.id!, context);
+      return { success: true, tab: toTabInfo(tab, context) } as unknown as JsonValue;
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+    }
+  }
+
+  const url = validated.url;
+  const { timeouts } = await loadConfig();
+  const result = await trackNavigation(async () => {
+    const tab = await browser.tabs.create({ ...createProperties, url });
+    claimTab(tab.id!, context);
+    return tab.id!;
+  }, {
+    waitUntil: validated.waitUntil ?? 'load',
+    timeout: validated.timeout ?? timeouts.pageLoad,
+    networkIdleTimeout: timeouts.networkIdle,
+  });
+
+  return { success: true, ...result } as unknown as JsonValue;
+};
+
+/**
+ * Close a tab
+ */
+export const closeTabTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.closeTab.parse(params);
+  const { tabId } = await resolveTarget(validated.tabId, 0, context);
+
+  try {
+    await browser.tabs.remove(tabId);
+    return { success: true, tabId } as unknown as JsonValue;
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+  }
+};
+
+/**
+ * Duplicate a tab
+ */
+export const duplicateTabTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.duplicateTab.parse(params);
+  const { tabId } = await resolveTarget(validated.tabId, 0, context);
+
+  try {
+    const tab = await browser.tabs.duplicate(tabId);
+    if (!tab?.id) {
+      return { success: false, error: `Tab ${tabId} could not be duplicated` } as unknown as JsonValue;
+    }
+    claimTab(tab.id, context);
+    return { success: true, tab: toTabInfo(tab, context) } as unknown as JsonValue;
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+  }
+};
+
+/**
+ * Pin or unpin a tab
+ */
+export const pinTabTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.pinTab.parse(params);
+  const { tabId } = await resolveTarget(validated.tabId, 0, context);
+
+  try {
+    const tab = await browser.tabs.update(tabId, { pinned: validated.pinned ?? true });
+    return { success: true, tab: toTabInfo(tab!, context) } as unknown as JsonValue;
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+  }
+};
+
+/**
+ * Move a tab within its window or to another window
+ */
+export const moveTabTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.moveTab.parse(params);
+
+  claimTab(validated.tabId, context);
+
+  try {
+    const moved = await browser.tabs.move(validated.tabId, {
+      index: validated.index,
+      ...(validated.windowId !== undefined && { windowId: validated.windowId }),
+    });
+    const tab = Array.isArray(moved) ? moved[0] : moved;
+    return { success: true, tab: toTabInfo(tab, context) } as unknown as JsonValue;
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+  }
+};
+
+/**
+ * Describe a window for tool results
+ */
+function toWindowInfo(window: Browser.windows.Window) {
+  const tabs = window.tabs ?? [];
+  const activeTab = tabs.find((tab) => tab.active);
+  return {
+    id: window.id!,
+    focused: window.focused,
+    incognito: window.incognito,
+    state: window.state ?? 'normal',
+    type: window.type ?? 'normal',
+    left: window.left ?? 0,
+    top: window.top ?? 0,
+    width: window.width ?? 0,
+    height: window.height ?? 0,
+    tabCount: tabs.length,
+    ...(activeTab?.id !== undefined && { activeTabId: activeTab.id }),
+  };
+}
+
+/**
+ * List all browser windows
+ */
+export const listWindowsTool: ToolHandler = async (params) => {
+  Schemas.listWindows.parse(params);
+
+  try {
+    const windows = await browser.windows.getAll({ populate: true });
+    return windows.map(toWindowInfo) as unknown as JsonValue;
+  } catch (error) {
+    return [] as unknown as JsonValue;
+  }
+};
+
+/**
+ * Open a new window
+ */
+export const newWindowTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.newWindow.parse(params);
+
+  if (validated.incognito && !(await browser.extension.isAllowedIncognitoAccess())) {
+    throw new AppError(
+      ErrorCode.INVALID_INPUT,
+      'The extension is not allowed in incognito windows; enable "Allow in Incognito" on the extension\'s details page'
+    );
+  }
+
+  try {
+    const { url, incognito, focused, state, ...bounds } = validated;
+    // Sizes and positions cannot be combined with a minimized, maximized or fullscreen state
+    const window = await browser.windows.create({
+      ...(url && { url }),
+      ...(incognito && { incognito }),
+      focused: focused ?? true,
+      ...(state && state !== 'normal' ? { state } : bounds),
+    });
+    if (!window) {
+      return { success: false, error: 'Window could not be created' } as unknown as JsonValue;
+    }
+
+    const tabs = window.tabs ?? [];
+    tabs.forEach((tab) => tab.id !== undefined && claimTab(tab.id, context));
+    return { success: true, window: toWindowInfo(window) } as unknown as JsonValue;
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+  }
+};
+
+/**
+ * Close a window and all of its tabs
+ */
+export const closeWindowTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.closeWindow.parse(params);
+
+  const tabs = await browser.tabs.query({ windowId: validated.windowId });
+  const owned = tabs.find((tab) => tab.id !== undefined && isOwnedByOtherSession(tab.id, context));
+  if (owned) {
+    throw new AppError(
+      ErrorCode.TAB_OWNED_BY_OTHER_SESSION,
+      `Window ${validated.windowId} has tab ${owned.id} in use by another session`,
+      { windowId: validated.windowId, tabId: owned.id! }
+    );
+  }
+
+  try {
+    await browser.windows.remove(validated.windowId);
+    return { success: true, windowId: validated.windowId } as unknown as JsonValue;
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+  }
+};
+
+/**
+ * Move, resize, minimize, maximize or fullscreen a window
+ */
+export const resizeWindowTool: ToolHandler = async (params) => {
+  const validated = Schemas.resizeWindow.parse(params);
+
+  try {
+    const { windowId, state, ...bounds } = validated;
+    const id = windowId ?? (await browser.windows.getLastFocused()).id!;
+    const window = await browser.windows.update(id, {
+      ...bounds,
+      ...(state && { state }),
+    });
+    return { success: true, window: toWindowInfo(window) } as unknown as JsonValue;
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) } as unknown as JsonValue;
+  }
+};
+
 /**
  * Query a single element
  */
-export const querySelectorTool: ToolHandler = async (params) => {
+export const querySelectorTool: ToolHandler = async (params, context) => {
   const validated = Schemas.querySelector.parse(params);
-  const targetTabId = await getTargetTabId(validated.tabId);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
 
-  return await sendMessage(
+  return await sendToContentScript(
+    target,
     'query_selector',
     {
       selector: validated.selector,
-      tabId: targetTabId,
-    },
-    targetTabId
+      ref: validated.ref,
+      locator: validated.locator,
+      tabId: target.tabId,
+    }
   ) as unknown as JsonValue;
 };
 
 /**
  * Query all matching elements
  */
-export const querySelectorAllTool: ToolHandler = async (params) => {
+export const querySelectorAllTool: ToolHandler = async (params, context) => {
   const validated = Schemas.querySelectorAll.parse(params);
-  const targetTabId = await getTargetTabId(validated.tabId);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
 
-  return await sendMessage(
+  return await sendToContentScript(
+    target,
     'query_selector_all',
     {
       selector: validated.selector,
-      tabId: targetTabId,
-    },
-    targetTabId
+      ref: validated.ref,
+      locator: validated.locator,
+      tabId: target.tabId,
+    }
   ) as unknown as JsonValue;
 };
 
 /**
  * Get form values
  */
-export const getFormValuesTool: ToolHandler = async (params) => {
+export const getFormValuesTool: ToolHandler = async (params, context) => {
   const validated = Schemas.getFormValues.parse(params);
-  const targetTabId = await getTargetTabId(validated.tabId);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
 
-  return await sendMessage(
+  return await sendToContentScript(
+    target,
     'get_form_values',
     {
       selector: validated.selector,
-      tabId: targetTabId,
+      tabId: target.tabId,
+    }
+  ) as unknown as JsonValue;
+};
+
+/**
+ * Extract structured data (links, images, headings, tables, metadata, structure)
+ */
+export const extractTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.extract.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'extract',
+    {
+      mode: validated.mode,
+      selector: validated.selector,
+      sameOriginOnly: validated.sameOriginOnly,
+      filter: validated.filter,
+      limit: validated.limit,
+      tabId: target.tabId,
+    }
+  ) as unknown as JsonValue;
+};
+
+/**
+ * Read a JSON object per matching item from a field map
+ */
+export const extractStructuredTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.extractStructured.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'extract_structured',
+    {
+      root: validated.locator ?? { type: 'css', value: validated.selector! },
+      fields: validated.fields,
+      limit: validated.limit,
+      tabId: target.tabId,
+    }
+  ) as unknown as JsonValue;
+};
+
+/**
+ * Type text character by character
+ */
+export const typeTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.type.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+  const element = { selector: validated.selector, ref: validated.ref, locator: validated.locator };
+  const clear = validated.clear ?? true;
+
+  return await withInputMode(
+    validated.trusted,
+    async () => {
+      // Selecting the current value lets the first keystroke (or Backspace) replace it
+      const focused = await sendToContentScript(target, 'focus', { ...element, select: clear });
+      if (!focused.success) {
+        return focused;
+      }
+      if (clear) {
+        await trustedPressKey(target.tabId, 'Backspace');
+      }
+      await trustedType(target.tabId, validated.text, { delay: validated.delay });
+      return { success: true };
+    },
+    () => sendToContentScript(target, 'type', {
+      ...element,
+      text: validated.text,
+      tabId: target.tabId,
+      options: {
+        ...(validated.delay !== undefined && { delay: validated.delay }),
+        ...(validated.clear !== undefined && { clear: validated.clear }),
+      },
+    })
+  );
+};
+
+/**
+ * Press a key
+ */
+export const pressKeyTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.pressKey.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+  const modifiers = {
+    ctrl: validated.ctrl ?? false,
+    alt: validated.alt ?? false,
+    shift: validated.shift ?? false,
+    meta: validated.meta ?? false,
+  };
+
+  return await withInputMode(
+    validated.trusted,
+    async () => {
+      // Trusted keys go to whatever has focus, in any frame
+      await trustedPressKey(target.tabId, validated.key, modifiers);
+      return { success: true };
+    },
+    () => sendToContentScript(target, 'press_key', { key: validated.key, tabId: target.tabId, options: modifiers })
+  );
+};
+
+/**
+ * Press a key sequence
+ */
+export const pressKeysTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.pressKeys.parse(params);
+  // Parsed here too so malformed sequences fail before anything is pressed
+  const chords = parseKeySequence(validated.keys);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await withInputMode(
+    validated.trusted,
+    async () => {
+      await trustedPressChords(target.tabId, chords, { delay: validated.delay });
+      return { success: true };
+    },
+    () => sendToContentScript(target, 'press_keys', { keys: validated.keys, delay: validated.delay, tabId: target.tabId })
+  );
+};
+
+/**
+ * Hover over an element
+ */
+export const hoverTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.hover.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+  const element = { selector: validated.selector, ref: validated.ref, locator: validated.locator };
+
+  return await withInputMode(
+    validated.trusted,
+    async () => {
+      const located = await getClickPoint(target, element, false);
+      if (!located.point) {
+        return located;
+      }
+      await trustedMove(target.tabId, located.point.x, located.point.y);
+      return { success: true };
     },
-    targetTabId
+    () => sendToContentScript(target, 'hover', { ...element, tabId: target.tabId })
+  );
+};
+
+/**
+ * Drag an element onto another element, by an offset or to coordinates
+ */
+export const dragTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.drag.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+  const drag = {
+    selector: validated.selector,
+    ref: validated.ref,
+    locator: validated.locator,
+    target: validated.target,
+    offset: validated.offset,
+    to: validated.to,
+    mode: validated.mode,
+  };
+
+  return await withInputMode(
+    validated.trusted,
+    async () => {
+      const located = await sendToContentScript(target, 'get_drag_points', drag);
+      if (!located.success) {
+        return located;
+      }
+      if (located.mode === 'html5') {
+        // Real mouse input would start a native drag session that the page never sees complete
+        throw new AppError(ErrorCode.TRUSTED_INPUT_UNAVAILABLE, 'HTML5 drag and drop is simulated with synthetic drag events');
+      }
+      if (!located.from || !located.to) {
+        throw new AppError(ErrorCode.TRUSTED_INPUT_UNAVAILABLE, 'The element is inside a cross-origin frame');
+      }
+      await trustedDrag(target.tabId, located.from, located.to, { steps: validated.steps, delay: validated.delay });
+      return { success: true, mode: located.mode, from: located.from, to: located.to };
+    },
+    () => sendToContentScript(target, 'drag', {
+      ...drag,
+      steps: validated.steps,
+      delay: validated.delay,
+      tabId: target.tabId,
+    })
+  );
+};
+
+/**
+ * Attach files to a file input, or drop them on a drop zone
+ */
+export const uploadFileTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.uploadFile.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  const files = validated.files.map((file) => {
+    // The MCP server replaces paths with content before the request reaches the extension
+    if (file.content === undefined) {
+      throw new AppError(ErrorCode.INVALID_INPUT, `Cannot read "${file.path}": local paths are only supported through the MCP server`);
+    }
+    if (!/^[A-Za-z0-9+/\s]*={0,2}$/.test(file.content)) {
+      throw new AppError(ErrorCode.INVALID_INPUT, `Content of "${file.name}" is not valid base64`);
+    }
+    const name = file.name!;
+    return { name, mimeType: file.mimeType ?? guessMimeType(name), content: file.content.replace(/\s/g, '') };
+  });
+
+  const totalBytes = files.reduce((total, file) => total + base64Size(file.content), 0);
+  if (totalBytes > MAX_UPLOAD_BYTES) {
+    throw new AppError(
+      ErrorCode.INVALID_INPUT,
+      `Files total ${totalBytes} bytes, more than the ${MAX_UPLOAD_BYTES} byte upload limit`
+    );
+  }
+
+  return await sendToContentScript(target, 'upload_file', {
+    selector: validated.selector,
+    ref: validated.ref,
+    locator: validated.locator,
+    files,
+    mode: validated.mode,
+    tabId: target.tabId,
+  }) as unknown as JsonValue;
+};
+
+/**
+ * Select an option from a select element
+ */
+export const selectOptionTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.selectOption.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'select_option',
+    {
+      selector: validated.selector,
+      ref: validated.ref,
+      locator: validated.locator,
+      value: validated.value,
+      tabId: target.tabId,
+    }
   ) as unknown as JsonValue;
 };
 
+/**
+ * Get element text content
+ */
+export const getTextTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.getText.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'get_text',
+    {
+      selector: validated.selector,
+      ref: validated.ref,
+      locator: validated.locator,
+      tabId: target.tabId,
+    }
+  ) as unknown as JsonValue;
+};
+
+/**
+ * Get element attribute
+ */
+export const getAttributeTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.getAttribute.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'get_attribute',
+    {
+      selector: validated.selector,
+      ref: validated.ref,
+      locator: validated.locator,
+      attribute: validated.attribute,
+      tabId: target.tabId,
+    }
+  ) as unknown as JsonValue;
+};
+
+/**
+ * Wait for an element to appear
+ */
+export const waitForTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.waitFor.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'wait_for',
+    {
+      selector: validated.selector,
+      ref: validated.ref,
+      locator: validated.locator,
+      tabId: target.tabId,
+      options: {
+        ...(validated.timeout !== undefined && { timeout: validated.timeout }),
+      },
+    }
+  ) as unknown as JsonValue;
+};
+
+/**
+ * Wait for an element to become visible
+ */
+export const waitForVisibleTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.waitForVisible.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'wait_for_visible',
+    {
+      selector: validated.selector,
+      ref: validated.ref,
+      locator: validated.locator,
+      tabId: target.tabId,
+      options: {
+        ...(validated.timeout !== undefined && { timeout: validated.timeout }),
+      },
+    }
+  ) as unknown as JsonValue;
+};
+
+/**
+ * Wait for an element's text to match
+ */
+export const waitForTextTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.waitForText.parse(params);
+  const target = await resolveTarget(validated.tabId, validated.frameId, context);
+
+  return await sendToContentScript(
+    target,
+    'wait_for_text',
+    {
+      selector: validated.selector,
+      ref: validated.ref,
+      locator: validated.locator,
+      text: validated.text,
+      tabId: target.tabId,
+      options: {
+        ...(validated.exact !== undefined && { exact: validated.exact }),
+        ...(validated.timeout !== undefined && { timeout: validated.timeout }),
+      },
+    }
+  ) as unknown as JsonValue;
+};
+
+/**
+ * Get recent extension log entries
+ */
+export const getLogsTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.getLogs.parse(params);
+  const minLevel = validated.level ? LogLevel[validated.level.toUpperCase() as keyof typeof LogLevel] : LogLevel.DEBUG;
+
+  const entries = logger.getHistory({ context: validated.context })
+    .filter((entry) => entry.level >= minLevel && !isOtherSessionEntry(entry, context))
+    .slice(-(validated.limit ?? 100))
+    // Without `data`: it holds tool call params, i.e. typed text, passwords and uploads
+    .map((entry) => ({
+      timestamp: new Date(entry.timestamp).toISOString(),
+      level: LogLevel[entry.level].toLowerCase(),
+      context: entry.context,
+      message: entry.message,
+      requestId: entry.requestId,
+    }));
+
+  return JSON.parse(JSON.stringify(entries)) as JsonValue;
+};
+
+/**
+ * Whether a log entry is about a tool call of another MCP session
+ */
+function isOtherSessionEntry(entry: LogEntry, context: ToolContext): boolean {
+  const sessionId = entry.data?.sessionId;
+  return typeof sessionId === 'string' && sessionId !== context.sessionId;
+}
+
+interface StepResult {
+  index: number;
+  tool: string;
+  status: 'passed' | 'failed' | 'skipped';
+  durationMs?: number;
+  result?: JsonValue;
+  error?: string;
+  code?: string;
+  failedAssertions?: JsonValue[];
+}
+
+/**
+ * Run several tool calls in order, each through the task queue
+ */
+export const runStepsTool: ToolHandler = async (params, context) => {
+  const validated = Schemas.runSteps.parse(params);
+
+  // Reject unknown steps before running anything
+  validated.steps.forEach((step, index) => {
+    if (!isStepTool(step.tool, TOOLS)) {
+      throw new AppError(ErrorCode.INVALID_INPUT, `Step ${index}: unknown or unsupported tool "${step.tool}"`);
+    }
+  });
+
+  const started = Date.now();
+  const results: StepResult[] = [];
+  let failedStep: number | undefined;
+
+  for (const [index, step] of validated.steps.entries()) {
+    if (failedStep !== undefined) {
+      results.push({ index, tool: step.tool, status: 'skipped' });
+      continue;
+    }
+
+    const stepParams = { ...step.params };
+    if (stepParams.tabId === undefined && validated.tabId !== undefined) {
+      stepParams.tabId = validated.tabId;
+    }
+
+    const stepStarted = Date.now();
+    const outcome: StepResult = { index, tool: step.tool, status: 'passed' };
+
+    try {
+      const result = await globalTaskQueue.enqueue(
+        () => getTool(step.tool)!.handler(stepParams, context),
+        { priority: 1, tabId: typeof stepParams.tabId === 'number' ? stepParams.tabId : undefined }
+      );
+      outcome.result = result;
+
+      // Many tools report failure in their result instead of throwing
+      if (isFailedResult(result)) {
+        outcome.status = 'failed';
+        outcome.error = typeof result.error === 'string' ? result.error : 'Step reported failure';
+      }
+
+      const failedAssertions = (step.assert ?? []).filter((assertion) => !checkAssertion(result, assertion));
+      if (failedAssertions.length > 0) {
+        outcome.status = 'failed';
+        outcome.error ??= `${failedAssertions.length} assertion(s) failed`;
+        outcome.failedAssertions = failedAssertions.map((assertion) => ({
+          ...assertion,
+          actual: getPath(result, assertion.path) ?? null,
+        })) as JsonValue[];
+      }
+    } catch (error) {
+      const { error: message, code } = handleError(error);
+      outcome.status = 'failed';
+      outcome.error = message;
+      outcome.code = code;
+    }
+
+    outcome.durationMs = Date.now() - stepStarted;
+    results.push(outcome);
+
+    if (outcome.status === 'failed' && !(step.continueOnError ?? validated.continueOnError ?? false)) {
+      failedStep = index;
+    }
+  }
+
+  logger.info('Tool:run_steps', 'Steps finished', {
+    steps: results.length,
+    failed: results.filter((result) => result.status === 'failed').length,
+  });
+
+  return {
+    success: results.every((result) => result.status === 'passed'),
+    ...(failedStep !== undefined && { stoppedAt: failedStep }),
+    durationMs: Date.now() - started,
+    steps: results,
+  } as unknown as JsonValue;
+};
+
+function isFailedResult(result: JsonValue): result is { [key: string]: JsonValue } {
+  return typeof result === 'object' && result !== null && !Array.isArray(result) && result.success === false;
+}
 
 /**
  * All tool definitions
  */
-export const TOOLS: Record<string, ToolDefinition> = {
-  navigate: {
-    name: 'navigate',
-    description: 'Navigate to a URL in the browser',
-    handler: navigateTool,
-    schema: Schemas.navigate,
-  },
-  click: {
-    name: 'click',
-    description: 'Click an element using CSS selector',
-    handler: clickTool,
-    schema: Schemas.click,
-  },
-  click_at: {
-    name: 'click_at',
-    description: 'Click at specific coordinates on the page',
-    handler: clickAtTool,
-    schema: Schemas.clickAt,
-  },
-  fill: {
-    name: 'fill',
-    description: 'Fill an input field with text',
-    handler: fillTool,
-    schema: Schemas.fill,
-  },
-  get_page_content: {
-    name: 'get_page_content',
-    description: 'Get the current page content',
-    handler: getPageContentTool,
-    schema: Schemas.getPageContent,
-  },
-  screenshot: {
-    name: 'screenshot',
-    description: 'Take a screenshot of the current page',
-    handler: screenshotTool,
-    schema: Schemas.screenshot,
-  },
-  list_tabs: {
-    name: 'list_tabs',
-    description: 'List all open browser tabs',
-    handler: listTabsTool,
-    schema: Schemas.listTabs,
-  },
-  activate_tab: {
-    name: 'activate_tab',
-    description: 'Activate a specific tab by ID',
-    handler: activateTabTool,
-    schema: Schemas.activateTab,
-  },
-  reload: {
-    name: 'reload',
-    description: 'Reload the current page or a specific tab',
-    handler: reloadTool,
-    schema: Schemas.reload,
-  },
-  query_selector: {
-    name: 'query_selector',
-    description: 'Query a single element using CSS selector',
-    handler: querySelectorTool,
-    schema: Schemas.querySelector,
-  },
-  query_selector_all: {
-    name: 'query_selector_all',
-    description: 'Query all elements matching a CSS selector',
-    handler: querySelectorAllTool,
-    schema: Schemas.querySelectorAll,
-  },
-  get_form_values: {
-    name: 'get_form_values',
-    description: 'Get all form input values',
-    handler: getFormValuesTool,
-    schema: Schemas.getFormValues,
-  },
+export const TOOLS: Record<ToolName, ToolDefinition> = {
+  navigate: { ...TOOL_SPECS.navigate, handler: navigateTool },
+  click: { ...TOOL_SPECS.click, handler: clickTool },
+  click_at: { ...TOOL_SPECS.click_at, handler: clickAtTool },
+  fill: { ...TOOL_SPECS.fill, handler: fillTool },
+  get_page_content: { ...TOOL_SPECS.get_page_content, handler: getPageContentTool },
+  snapshot: { ...TOOL_SPECS.snapshot, handler: snapshotTool },
+  screenshot: { ...TOOL_SPECS.screenshot, handler: screenshotTool },
+  list_tabs: { ...TOOL_SPECS.list_tabs, handler: listTabsTool },
+  activate_tab: { ...TOOL_SPECS.activate_tab, handler: activateTabTool },
+  reload: { ...TOOL_SPECS.reload, handler: reloadTool },
+  go_back: { ...TOOL_SPECS.go_back, handler: goBackTool },
+  go_forward: { ...TOOL_SPECS.go_forward, handler: goForwardTool },
+  new_tab: { ...TOOL_SPECS.new_tab, handler: newTabTool },
+  close_tab: { ...TOOL_SPECS.close_tab, handler: closeTabTool },
+  duplicate_tab: { ...TOOL_SPECS.duplicate_tab, handler: duplicateTabTool },
+  pin_tab: { ...TOOL_SPECS.pin_tab, handler: pinTabTool },
+  move_tab: { ...TOOL_SPECS.move_tab, handler: moveTabTool },
+  list_windows: { ...TOOL_SPECS.list_windows, handler: listWindowsTool },
+  new_window: { ...TOOL_SPECS.new_window, handler: newWindowTool },
+  close_window: { ...TOOL_SPECS.close_window, handler: closeWindowTool },
+  resize_window: { ...TOOL_SPECS.resize_window, handler: resizeWindowTool },
+  query_selector: { ...TOOL_SPECS.query_selector, handler: querySelectorTool },
+  query_selector_all: { ...TOOL_SPECS.query_selector_all, handler: querySelectorAllTool },
+  get_form_values: { ...TOOL_SPECS.get_form_values, handler: getFormValuesTool },
+  type: { ...TOOL_SPECS.type, handler: typeTool },
+  press_key: { ...TOOL_SPECS.press_key, handler: pressKeyTool },
+  press_keys: { ...TOOL_SPECS.press_keys, handler: pressKeysTool },
+  hover: { ...TOOL_SPECS.hover, handler: hoverTool },
+  drag: { ...TOOL_SPECS.drag, handler: dragTool },
+  upload_file: { ...TOOL_SPECS.upload_file, handler: uploadFileTool },
+  select_option: { ...TOOL_SPECS.select_option, handler: selectOptionTool },
+  get_text: { ...TOOL_SPECS.get_text, handler: getTextTool },
+  get_attribute: { ...TOOL_SPECS.get_attribute, handler: getAttributeTool },
+  wait_for: { ...TOOL_SPECS.wait_for, handler: waitForTool },
+  wait_for_visible: { ...TOOL_SPECS.wait_for_visible, handler: waitForVisibleTool },
+  wait_for_text: { ...TOOL_SPECS.wait_for_text, handler: waitForTextTool },
+  extract: { ...TOOL_SPECS.extract, handler: extractTool },
+  extract_structured: { ...TOOL_SPECS.extract_structured, handler: extractStructuredTool },
+  run_steps: { ...TOOL_SPECS.run_steps, handler: runStepsTool, skipQueue: true },
+  get_logs: { ...TOOL_SPECS.get_logs, handler: getLogsTool },
 };
 
 export function getTool(name: string): ToolDefinition | undefined {
-  return TOOLS[name];
+  return Object.hasOwn(TOOLS, name) ? TOOLS[name as ToolName] : undefined;
 }
 
 export function getToolNames(): string[] {
@@ -0,0 +1,272 @@
+/**
+ * Trusted Input - real mouse and keyboard events through chrome.debugger
+ *
+ * Events sent with the DevTools protocol's Input domain are generated by the
+ * browser itself, so pages see `isTrusted === true`. The debugger stays attached
+ * to a tab between calls and detaches after a while without input. `debugger`
+ * is an optional permission, requested when trusted input is first used.
+ */
+
+import { browser } from 'wxt/browser';
+import { logger } from '../core/logger';
+import { AppError, ErrorCode } from '../core/errors';
+import { getKeyDefinition, type KeyChord, type KeyDefinition, type Modifiers } from '../core/keyboard';
+import { grantHint, requestPermission } from './permissions';
+
+export interface TrustedClickOptions {
+  button?: 'left' | 'middle' | 'right';
+  clickCount?: number;
+  modifiers?: Modifiers;
+  delay?: number;
+}
+
+const PROTOCOL_VERSION = '1.3';
+
+// Detach after this long without input (the browser shows a banner while attached)
+const DETACH_AFTER_MS = 30000;
+
+// Bit flags of the Input domain's `modifiers` parameter
+const MODIFIER_FLAGS = { alt: 1, ctrl: 2, meta: 4, shift: 8 } as const;
+
+const BUTTON_FLAGS = { left: 1, right: 2, middle: 4 } as const;
+
+const detachTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+// chrome.debugger only exists once the permission is granted, so the listener is added on first attach
+let listeningForDetach = false;
+
+/**
+ * Click at a point in the tab's viewport (CSS pixels of the top-level page)
+ */
+export async function trustedClick(tabId: number, x: number, y: number, options: TrustedClickOptions = {}): Promise<void> {
+  const { button = 'left', clickCount = 1, modifiers = {}, delay = 50 } = options;
+  const base = { x, y, modifiers: modifierFlags(modifiers) };
+
+  await withDebugger(tabId, async () => {
+    await send(tabId, 'Input.dispatchMouseEvent', { ...base, type: 'mouseMoved', button: 'none' });
+    for (let count = 1; count <= clickCount; count++) {
+      await send(tabId, 'Input.dispatchMouseEvent', {
+        ...base,
+        type: 'mousePressed',
+        button,
+        buttons: BUTTON_FLAGS[button],
+        clickCount: count,
+      });
+      await sleep(delay);
+      await send(tabId, 'Input.dispatchMouseEvent', { ...base, type: 'mouseReleased', button, buttons: 0, clickCount: count });
+    }
+  });
+}
+
+/**
+ * Press the left button at `from`, move to `to` in steps and release
+ */
+export async function trustedDrag(
+  tabId: number,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  options: { steps?: number; delay?: number } = {}
+): Promise<void> {
+  const { steps = 10, delay = 16 } = options;
+
+  await withDebugger(tabId, async () => {
+    await send(tabId, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x: from.x, y: from.y, button: 'none' });
+    await send(tabId, 'Input.dispatchMouseEvent', {
+      type: 'mousePressed', x: from.x, y: from.y, button: 'left', buttons: BUTTON_FLAGS.left, clickCount: 1,
+    });
+    for (let step = 1; step <= steps; step++) {
+      await sleep(delay);
+      await send(tabId, 'Input.dispatchMouseEvent', {
+        type: 'mouseMoved',
+        x: from.x + ((to.x - from.x) * step) / steps,
+        y: from.y + ((to.y - from.y) * step) / steps,
+        button: 'left',
+        buttons: BUTTON_FLAGS.left,
+      });
+    }
+    await sleep(delay);
+    await send(tabId, 'Input.dispatchMouseEvent', {
+      type: 'mouseReleased', x: to.x, y: to.y, button: 'left', buttons: 0, clickCount: 1,
+    });
+  });
+}
+
+/**
+ * Move the mouse to a point in the tab's viewport
+ */
+export async function trustedMove(tabId: number, x: number, y: number): Promise<void> {
+  await withDebugger(tabId, () =>
+    send(tabId, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y, button: 'none' })
+  );
+}
+
+/**
+ * Type text into the focused element, key by key. Characters without a key on
+ * a US keyboard (accents, emoji, ...) are inserted as text input.
+ */
+export async function trustedType(tabId: number, text: string, options: { delay?: number } = {}): Promise<void> {
+  const { delay = 50 } = options;
+
+  await withDebugger(tabId, async () => {
+    for (const char of text) {
+      const definition = char === '\n' ? getKeyDefinition('Enter') : getKeyDefinition(char);
+      if (definition?.text !== undefined) {
+        await dispatchKey(tabId, definition, { shift: definition.shift });
+      } else {
+        await send(tabId, 'Input.insertText', { text: char });
+      }
+      await sleep(delay);
+    }
+  });
+}
+
+/**
+ * Press a key with optional modifiers held
+ */
+export async function trustedPressKey(tabId: number, key: string, modifiers: Modifiers = {}): Promise<void> {
+  const definition = getKeyDefinition(key, modifiers.shift);
+  if (!definition) {
+    throw new AppError(ErrorCode.INVALID_INPUT, `Unknown key: ${key}`, { key });
+  }
+
+  // Shifted characters ("A", "!") hold Shift like a real keyboard would
+  const held = { ...modifiers, shift: modifiers.shift || definition.shift };
+  await withDebugger(tabId, () => dispatchKey(tabId, definition, held));
+}
+
+/**
+ * Press a parsed key sequence, chord by chord
+ */
+export async function trustedPressChords(tabId: number, chords: KeyChord[], options: { delay?: number } = {}): Promise<void> {
+  const { delay = 50 } = options;
+
+  await withDebugger(tabId, async () => {
+    for (const [index, chord] of chords.entries()) {
+      if (index > 0) {
+        await sleep(delay);
+      }
+      await dispatchKey(tabId, chord.key, chord.modifiers);
+    }
+  });
+}
+
+/**
+ * Key down and up. Modifier keys are reported through the flags only.
+ */
+async function dispatchKey(tabId: number, definition: KeyDefinition, modifiers: Modifiers): Promise<void> {
+  // Shortcuts (Ctrl/Alt/Meta held) do not insert text
+  const text = modifiers.ctrl || modifiers.alt || modifiers.meta ? undefined : definition.text;
+  const params = {
+    key: definition.key,
+    code: definition.code,
+    windowsVirtualKeyCode: definition.keyCode,
+    nativeVirtualKeyCode: definition.keyCode,
+    modifiers: modifierFlags(modifiers),
+    ...(definition.location !== undefined && { location: definition.location }),
+  };
+
+  await send(tabId, 'Input.dispatchKeyEvent', {
+    ...params,
+    type: text !== undefined ? 'keyDown' : 'rawKeyDown',
+    ...(text !== undefined && { text, unmodifiedText: text }),
+  });
+  await send(tabId, 'Input.dispatchKeyEvent', { ...params, type: 'keyUp' });
+}
+
+/**
+ * Run `fn` with the debugger attached to the tab.
+ * Throws TRUSTED_INPUT_UNAVAILABLE if the debugger cannot be attached.
+ */
+async function withDebugger<T>(tabId: number, fn: () => Promise<T>): Promise<T> {
+  await attach(tabId);
+  try {
+    return await fn();
+  } finally {
+    scheduleDetach(tabId);
+  }
+}
+
+async function attach(tabId: number): Promise<void> {
+  if (!(await requestPermission('debugger')) || !browser.debugger) {
+    throw new AppError(
+      ErrorCode.TRUSTED_INPUT_UNAVAILABLE,
+      `The debugger permission is not granted; ${grantHint('debugger')}`
+    );
+  }
+  listenForDetach();
+
+  const timer = detachTimers.get(tabId);
+  if (timer !== undefined) {
+    clearTimeout(timer);
+    return;
+  }
+
+  try {
+    await browser.debugger.attach({ tabId }, PROTOCOL_VERSION);
+    logger.debug('TrustedInput', 'Debugger attached', { tabId });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Attached by an earlier service worker instance: keep using it
+    if (!isAlreadyAttachedError(message)) {
+      throw new AppError(ErrorCode.TRUSTED_INPUT_UNAVAILABLE, `Cannot attach debugger: ${message}`, { tabId });
+    }
+  }
+}
+
+/**
+ * Whether attaching failed because a debugger is already attached
+ * (Chrome: "Another debugger is already attached to the tab with id: 1.")
+ */
+export function isAlreadyAttachedError(message: string): boolean {
+  return /already attached/i.test(message);
+}
+
+/**
+ * Forget tabs the debugger was detached from by the user, DevTools or tab close
+ */
+function listenForDetach() {
+  if (listeningForDetach) {
+    return;
+  }
+  listeningForDetach = true;
+  browser.debugger.onDetach.addListener((source, reason) => {
+    if (source.tabId !== undefined && detachTimers.has(source.tabId)) {
+      clearTimeout(detachTimers.get(source.tabId));
+      detachTimers.delete(source.tabId);
+      logger.debug('TrustedInput', 'Debugger detached', { tabId: source.tabId, reason });
+    }
+  });
+}
+
+function scheduleDetach(tabId: number) {
+  clearTimeout(detachTimers.get(tabId));
+  detachTimers.set(tabId, setTimeout(() => {
+    detachTimers.delete(tabId);
+    browser.debugger.detach({ tabId }).catch(() => {
+      // Already detached (tab closed or debugging cancelled)
+    });
+  }, DETACH_AFTER_MS));
+}
+
+async function send(tabId: number, method: string, params: Record<string, unknown>): Promise<void> {
+  try {
+    await browser.debugger.sendCommand({ tabId }, method, params);
+  } catch (error) {
+    throw new AppError(
+      ErrorCode.TOOL_EXECUTION_FAILED,
+      `${method} failed: ${error instanceof Error ? error.message : String(error)}`,
+      { tabId }
+    );
+  }
+}
+
+function modifierFlags(modifiers: Modifiers): number {
+  return (modifiers.alt ? MODIFIER_FLAGS.alt : 0)
+    | (modifiers.ctrl ? MODIFIER_FLAGS.ctrl : 0)
+    | (modifiers.meta ? MODIFIER_FLAGS.meta : 0)
+    | (modifiers.shift ? MODIFIER_FLAGS.shift : 0);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
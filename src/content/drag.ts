@@ -0,0 +1,276 @@
+/**
+ * Drag and Drop - HTML5 drag-and-drop and pointer-driven drags
+ *
+ * HTML5 mode fires dragstart/drag/dragenter/dragover/dragleave/drop/dragend with
+ * one shared DataTransfer, for elements with draggable="true". Pointer mode fires
+ * pointer and mouse events with stepped moves, for libraries that track the
+ * pointer themselves (sortable lists, kanban boards, custom sliders, canvases).
+ * Native range inputs are set directly, since they ignore synthetic pointers.
+ */
+
+import { WaitFor } from './wait-for';
+import { ElementLocator, type Locator } from './locators';
+import { Editable } from './editable';
+
+export type DragMode = 'html5' | 'pointer';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Where to drop: another element's center, an offset from the source's center, or a viewport point */
+export type DragDestination =
+  | { locator: Locator }
+  | { offset: Point }
+  | { point: Point };
+
+export interface DragOptions {
+  mode?: DragMode | 'auto';
+  /** Number of intermediate moves */
+  steps?: number;
+  /** Delay between moves in milliseconds */
+  delay?: number;
+}
+
+export interface DragResult {
+  success: boolean;
+  mode?: DragMode | 'range';
+  from?: Point;
+  to?: Point;
+  /** HTML5 mode: whether the drop target accepted the drop (cancelled dragover) */
+  dropped?: boolean;
+  error?: string;
+}
+
+const POINTER_ID = 1;
+
+export class DragAndDrop {
+  /**
+   * Drag an element to a destination
+   */
+  static async drag(source: string | Locator, destination: DragDestination, options: DragOptions = {}): Promise<DragResult> {
+    const { steps = 10, delay = 16 } = options;
+
+    try {
+      const { element, mode, from, to } = await this.resolve(source, destination, options.mode);
+
+      if (element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'range') {
+        return this.setRange(element as HTMLInputElement, to);
+      }
+
+      const path = this.interpolate(from, to, Math.max(steps, 1));
+      if (mode === 'html5') {
+        const dropped = await this.html5Drag(element, path, delay);
+        return { success: true, mode, from, to, dropped };
+      }
+
+      await this.pointerDrag(element, path, delay);
+      return { success: true, mode, from, to };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Locate the source, scroll it into view and work out both end points (viewport coordinates)
+   */
+  static async resolve(
+    source: string | Locator,
+    destination: DragDestination,
+    mode: DragMode | 'auto' = 'auto'
+  ): Promise<{ element: Element; mode: DragMode; from: Point; to: Point }> {
+    const result = await WaitFor.visible(ElementLocator.parse(source));
+    const element = Array.isArray(result) ? result[0] : result;
+
+    element.scrollIntoView({ behavior: 'instant', block: 'center', inline: 'center' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const from = this.center(element);
+    let to: Point;
+    if ('locator' in destination) {
+      const targetResult = await WaitFor.visible(destination.locator);
+      to = this.center(Array.isArray(targetResult) ? targetResult[0] : targetResult);
+    } else if ('offset' in destination) {
+      to = { x: from.x + destination.offset.x, y: from.y + destination.offset.y };
+    } else {
+      to = destination.point;
+    }
+
+    if (to.x < 0 || to.y < 0 || to.x > window.innerWidth || to.y > window.innerHeight) {
+      throw new Error(`Drop point (${Math.round(to.x)}, ${Math.round(to.y)}) is outside the viewport`);
+    }
+
+    const resolvedMode = mode === 'auto'
+      ? (element.closest('[draggable="true"]') ? 'html5' : 'pointer')
+      : mode;
+
+    return { element, mode: resolvedMode, from, to };
+  }
+
+  private static async html5Drag(source: Element, path: Point[], delay: number): Promise<boolean> {
+    // The drag starts from the draggable ancestor when the source is inside one
+    const draggable = source.closest('[draggable="true"]') ?? source;
+    const dataTransfer = new DataTransfer();
+    const start = path[0];
+
+    this.dispatchMouse(draggable, 'mousedown', start, 1);
+    if (!this.dispatchDrag(draggable, 'dragstart', start, dataTransfer)) {
+      this.dispatchMouse(draggable, 'mouseup', start, 0);
+      throw new Error('The page cancelled dragstart');
+    }
+
+    let over: Element | null = null;
+    let dropAllowed = false;
+
+    for (const point of path.slice(1)) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      this.dispatchDrag(draggable, 'drag', point, dataTransfer);
+
+      const element = document.elementFromPoint(point.x, point.y);
+      if (element !== over) {
+        if (element) {
+          this.dispatchDrag(element, 'dragenter', point, dataTransfer);
+        }
+        if (over) {
+          this.dispatchDrag(over, 'dragleave', point, dataTransfer);
+        }
+        over = element;
+      }
+      // A drop target accepts the drop by cancelling dragover
+      dropAllowed = over ? !this.dispatchDrag(over, 'dragover', point, dataTransfer) : false;
+    }
+
+    const end = path[path.length - 1];
+    if (over && dropAllowed) {
+      this.dispatchDrag(over, 'drop', end, dataTransfer);
+    } else {
+      dataTransfer.dropEffect = 'none';
+      if (over) {
+        this.dispatchDrag(over, 'dragleave', end, dataTransfer);
+      }
+    }
+    this.dispatchDrag(draggable, 'dragend', end, dataTransfer);
+
+    return Boolean(over && dropAllowed);
+  }
+
+  private static async pointerDrag(source: Element, path: Point[], delay: number) {
+    const start = path[0];
+
+    // Cancelling pointerdown suppresses the compatibility mouse events, as in a real browser
+    const mouseEvents = this.dispatchPointer(source, 'pointerdown', start, 1);
+    if (mouseEvents) {
+      this.dispatchMouse(source, 'mousedown', start, 1);
+    }
+
+    let current: Element = source;
+    for (const point of path.slice(1)) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      // Libraries that capture the pointer expect every move on the capturing element
+      current = this.hasCapture(source) ? source : document.elementFromPoint(point.x, point.y) ?? current;
+      this.dispatchPointer(current, 'pointermove', point, 1);
+      if (mouseEvents) {
+        this.dispatchMouse(current, 'mousemove', point, 1);
+      }
+    }
+
+    const end = path[path.length - 1];
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    this.dispatchPointer(current, 'pointerup', end, 0);
+    if (mouseEvents) {
+      this.dispatchMouse(current, 'mouseup', end, 0);
+    }
+  }
+
+  /**
+   * Native sliders ignore synthetic pointer events: set the value the drop point corresponds to
+   */
+  private static setRange(input: HTMLInputElement, to: Point): DragResult {
+    const rect = input.getBoundingClientRect();
+    const min = input.min === '' ? 0 : Number(input.min);
+    const max = input.max === '' ? 100 : Number(input.max);
+    const vertical = rect.height > rect.width;
+    const fraction = vertical
+      ? 1 - (to.y - rect.top) / rect.height
+      : (to.x - rect.left) / rect.width;
+
+    // The browser rounds to the input's step
+    Editable.setNativeValue(input, String(min + Math.min(Math.max(fraction, 0), 1) * (max - min)));
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+
+    return { success: true, mode: 'range', from: this.center(input), to };
+  }
+
+  private static dispatchDrag(target: Element, type: string, point: Point, dataTransfer: DataTransfer): boolean {
+    return target.dispatchEvent(new DragEvent(type, {
+      ...this.coordinates(point),
+      dataTransfer,
+      bubbles: true,
+      cancelable: type !== 'dragleave' && type !== 'dragend',
+      composed: true,
+    }));
+  }
+
+  private static dispatchPointer(target: Element, type: string, point: Point, buttons: number): boolean {
+    return target.dispatchEvent(new PointerEvent(type, {
+      ...this.coordinates(point),
+      pointerId: POINTER_ID,
+      pointerType: 'mouse',
+      isPrimary: true,
+      button: type === 'pointermove' ? -1 : 0,
+      buttons,
+      pressure: buttons ? 0.5 : 0,
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+    }));
+  }
+
+  private static dispatchMouse(target: Element, type: string, point: Point, buttons: number) {
+    target.dispatchEvent(new MouseEvent(type, {
+      ...this.coordinates(point),
+      button: 0,
+      buttons,
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+    }));
+  }
+
+  private static coordinates(point: Point): MouseEventInit {
+    return {
+      clientX: point.x,
+      clientY: point.y,
+      screenX: point.x + window.screenX,
+      screenY: point.y + window.screenY,
+    };
+  }
+
+  private static hasCapture(element: Element): boolean {
+    try {
+      return element.hasPointerCapture(POINTER_ID);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Points from `from` to `to`, both included
+   */
+  private static interpolate(from: Point, to: Point, steps: number): Point[] {
+    return Array.from({ length: steps + 1 }, (_, index) => ({
+      x: from.x + ((to.x - from.x) * index) / steps,
+      y: from.y + ((to.y - from.y) * index) / steps,
+    }));
+  }
+
+  private static center(element: Element): Point {
+    const rect = element.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Editable - set values the way frameworks expect
+ *
+ * React, Vue and Angular track input values themselves: assigning `element.value`
+ * through an overridden setter, or without the input events a user would cause,
+ * leaves their state stale. Values are written with the native prototype setter
+ * and announced with beforeinput/input/change. Contenteditable elements and
+ * rich-text editors (ProseMirror, Quill, Draft.js) are edited with
+ * execCommand('insertText'), which they all observe like real typing.
+ */
+
+import { ErrorCode } from '../core/errors';
+import { getKeyDefinition } from '../core/keyboard';
+
+export type EditableElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | HTMLElement;
+
+export interface EditResult {
+  success: boolean;
+  /** Value (or text, for contenteditable) of the element afterwards */
+  value?: string;
+  error?: string;
+  code?: string;
+}
+
+// Input types whose value is not text (set with click/select_option or a proper value instead)
+const NON_TEXT_INPUT_TYPES = new Set(['checkbox', 'radio', 'file', 'button', 'submit', 'reset', 'image', 'hidden']);
+
+// Time given to the page's own handlers (re-renders, masks) before checking the value
+const SETTLE_MS = 50;
+
+export class Editable {
+  /**
+   * Resolve the element to edit: the element itself if it takes a value, its
+   * editing host if it is inside a contenteditable, or a contenteditable inside
+   * it (e.g. a rich editor's wrapper). Returns null if nothing is editable.
+   */
+  static resolve(element: Element): EditableElement | null {
+    if (element instanceof HTMLInputElement) {
+      return this.isTextInput(element) ? element : null;
+    }
+    if (element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+      return element;
+    }
+    if (element instanceof HTMLElement && element.isContentEditable) {
+      let host: HTMLElement = element;
+      while (host.parentElement?.isContentEditable) {
+        host = host.parentElement;
+      }
+      return host;
+    }
+
+    const inner = element.querySelector('textarea, [contenteditable]:not([contenteditable="false"])');
+    return inner instanceof HTMLElement ? this.resolve(inner) : null;
+  }
+
+  /**
+   * Whether an element is an input that holds text (not a checkbox, button, file, ...)
+   */
+  static isTextInput(element: Element): element is HTMLInputElement {
+    return element.tagName === 'INPUT' && !NON_TEXT_INPUT_TYPES.has((element as HTMLInputElement).type);
+  }
+
+  /**
+   * Current value, or normalized text for contenteditable elements
+   */
+  static read(element: EditableElement): string {
+    if (this.isValueElement(element)) {
+      return element.value;
+    }
+    return (element.innerText ?? element.textContent ?? '').replace(/\u00a0/g, ' ');
+  }
+
+  /**
+   * Set a value with the native setter, bypassing setters a framework installed on the instance
+   */
+  static setNativeValue(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, value: string) {
+    // By tag name: elements inside iframes are instances of the frame's own classes
+    const prototype = element.tagName === 'INPUT'
+      ? HTMLInputElement.prototype
+      : element.tagName === 'TEXTAREA'
+        ? HTMLTextAreaElement.prototype
+        : HTMLSelectElement.prototype;
+    const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+    if (setter) {
+      setter.call(element, value);
+    } else {
+      element.value = value;
+    }
+  }
+
+  /**
+   * Replace (or, without `clear`, append to) the element's value in one edit
+   */
+  static async fill(element: EditableElement, value: string, options: { clear?: boolean; dispatchEvents?: boolean } = {}): Promise<EditResult> {
+    const { clear = true, dispatchEvents = true } = options;
+    const before = this.read(element);
+    element.focus();
+
+    if (!this.isValueElement(element)) {
+      this.selectContents(element, clear);
+      await this.settle(0);
+      this.insertIntoEditable(element, value, clear ? 'insertReplacementText' : 'insertText');
+      return this.verify(element, before, clear ? value : before + value);
+    }
+
+    const expected = clear || element instanceof HTMLSelectElement ? value : element.value + value;
+
+    if (element instanceof HTMLSelectElement) {
+      if (!Array.from(element.options).some((option) => option.value === value)) {
+        return { success: false, error: `Option with value "${value}" not found`, code: ErrorCode.INVALID_INPUT };
+      }
+    } else if (dispatchEvents && !this.beforeInput(element, 'insertReplacementText', expected)) {
+      // The page cancelled the edit
+      return this.verify(element, before, expected);
+    }
+
+    this.setNativeValue(element, expected);
+    const rejected = this.checkSanitized(element, expected);
+    if (rejected) {
+      this.setNativeValue(element, before);
+      return rejected;
+    }
+
+    if (dispatchEvents) {
+      element.dispatchEvent(new InputEvent('input', {
+        bubbles: true,
+        inputType: 'insertReplacementText',
+        data: expected,
+      }));
+      element.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+
+    return this.verify(element, before, expected);
+  }
+
+  /**
+   * Type text key by key with keydown, keypress, beforeinput, input and keyup per character
+   */
+  static async type(element: EditableElement, text: string, options: { clear?: boolean; delay?: number } = {}): Promise<EditResult> {
+    const { clear = true, delay = 50 } = options;
+    const before = this.read(element);
+    element.focus();
+
+    if (element instanceof HTMLSelectElement) {
+      return { success: false, error: 'Cannot type into a select, use select_option', code: ErrorCode.INVALID_INPUT };
+    }
+
+    if (!this.isValueElement(element)) {
+      this.selectContents(element, clear);
+      await this.settle(0);
+      if (clear && before) {
+        document.execCommand('delete');
+      }
+    } else if (clear && element.value) {
+      if (this.beforeInput(element, 'deleteContent', null)) {
+        this.setNativeValue(element, '');
+        element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'deleteContent' }));
+      }
+    }
+
+    for (const char of text) {
+      this.typeCharacter(element, char);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    if (this.isValueElement(element)) {
+      element.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+
+    // Enter does not insert anything into a single-line input
+    const typed = element instanceof HTMLInputElement ? text.replace(/\n/g, '') : text;
+    return this.verify(element, before, (clear ? '' : before) + typed);
+  }
+
+  private static typeCharacter(element: HTMLInputElement | HTMLTextAreaElement | HTMLElement, char: string) {
+    const definition = char === '\n' ? getKeyDefinition('Enter') : getKeyDefinition(char);
+    const keyInit: KeyboardEventInit = {
+      key: definition?.key ?? char,
+      code: definition?.code ?? '',
+      keyCode: definition?.keyCode ?? 0,
+      which: definition?.keyCode ?? 0,
+      shiftKey: definition?.shift ?? false,
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+    };
+
+    // A cancelled keydown or keypress stops the character, as in a real browser
+    const inserts = element.dispatchEvent(new KeyboardEvent('keydown', keyInit))
+      && element.dispatchEvent(new KeyboardEvent('keypress', {
+        ...keyInit,
+        charCode: definition?.keyCode === 13 ? 13 : char.codePointAt(0),
+        keyCode: definition?.keyCode === 13 ? 13 : char.codePointAt(0),
+      }));
+
+    if (inserts && !(char === '\n' && element instanceof HTMLInputElement)) {
+      const inputType = char === '\n' ? 'insertLineBreak' : 'insertText';
+      if (!this.isValueElement(element)) {
+        this.insertIntoEditable(element, char, inputType);
+      } else if (this.beforeInput(element, inputType, char)) {
+        this.setNativeValue(element, element.value + char);
+        element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data: char }));
+      }
+    }
+
+    element.dispatchEvent(new KeyboardEvent('keyup', keyInit));
+  }
+
+  /**
+   * Insert text at the selection of a contenteditable. execCommand fires
+   * beforeinput/input itself; if it is unavailable the edit is done by hand.
+   */
+  private static insertIntoEditable(element: HTMLElement, text: string, inputType: string) {
+    if (text === '' ? document.execCommand('delete') : document.execCommand('insertText', false, text)) {
+      return;
+    }
+
+    if (!this.beforeInput(element, inputType, text)) {
+      return;
+    }
+
+    const selection = window.getSelection();
+    const range = selection?.rangeCount ? selection.getRangeAt(0) : null;
+    if (range && element.contains(range.commonAncestorContainer)) {
+      range.deleteContents();
+      const node = document.createTextNode(text);
+      range.insertNode(node);
+      range.setStartAfter(node);
+      range.collapse(true);
+      selection!.removeAllRanges();
+      selection!.addRange(range);
+    } else {
+      element.append(text);
+    }
+    element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data: text }));
+  }
+
+  /**
+   * Dispatch beforeinput; false if the page cancelled it
+   */
+  static beforeInput(element: HTMLElement, inputType: string, data: string | null): boolean {
+    return element.dispatchEvent(new InputEvent('beforeinput', {
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      inputType,
+      data,
+    }));
+  }
+
+  /**
+   * Select the whole content (to replace it) or place the caret at the end
+   */
+  private static selectContents(element: HTMLElement, all: boolean) {
+    const selection = window.getSelection();
+    if (!selection) {
+      return;
+    }
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    if (!all) {
+      range.collapse(false);
+    }
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+
+  /**
+   * The browser drops values an input type cannot hold (e.g. "abc" in a number input)
+   */
+  private static checkSanitized(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, expected: string): EditResult | null {
+    if (element instanceof HTMLInputElement && expected !== '' && element.value === '') {
+      return {
+        success: false,
+        error: `Value "${expected}" is not valid for <input type="${element.type}">`,
+        code: ErrorCode.INVALID_INPUT,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Wait for the page to react, then check the value was kept. Reformatting
+   * (input masks, trimming) is fine; a value reverted to what it was, or
+   * emptied, is reported as VALUE_NOT_APPLIED.
+   */
+  private static async verify(element: EditableElement, before: string, expected: string): Promise<EditResult> {
+    await this.settle(SETTLE_MS);
+
+    const value = this.read(element);
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+    const kept = this.isValueElement(element)
+      ? value === expected || (value !== before && value !== '')
+      : normalize(value).includes(normalize(expected))
+        || (normalize(value) !== normalize(before) && normalize(value) !== '');
+
+    if (!kept && normalize(expected) !== normalize(before)) {
+      return {
+        success: false,
+        value,
+        error: `The page did not keep the value (expected "${expected}", found "${value}"); it may be controlled by a framework that rejected the change`,
+        code: ErrorCode.VALUE_NOT_APPLIED,
+      };
+    }
+
+    return { success: true, value };
+  }
+
+  private static isValueElement(element: EditableElement): element is HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement {
+    return element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement;
+  }
+
+  private static settle(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Element References - short, stable ids for elements seen in a snapshot
+ *
+ * Refs are stored as a data attribute on the element itself, so the same
+ * element keeps its ref across snapshots and any CSS-based lookup can use it.
+ */
+
+const REF_ATTRIBUTE = 'data-mcp-ref';
+const REF_PATTERN = /^e\d+$/;
+
+// Set on first use: refs from an earlier injection of the content script may still be in the page
+let nextRef: number | null = null;
+
+export class ElementRefs {
+  /**
+   * Get the ref for an element, assigning a new one if needed
+   */
+  static refFor(element: Element): string {
+    const existing = element.getAttribute(REF_ATTRIBUTE);
+    if (existing && REF_PATTERN.test(existing)) {
+      return existing;
+    }
+
+    nextRef ??= this.highestRef() + 1;
+    const ref = `e${nextRef++}`;
+    element.setAttribute(REF_ATTRIBUTE, ref);
+    return ref;
+  }
+
+  /**
+   * Highest ref number already in the document (0 if none)
+   */
+  private static highestRef(): number {
+    let highest = 0;
+    for (const element of Array.from(document.querySelectorAll(`[${REF_ATTRIBUTE}]`))) {
+      const ref = element.getAttribute(REF_ATTRIBUTE)!;
+      if (REF_PATTERN.test(ref)) {
+        highest = Math.max(highest, Number(ref.slice(1)));
+      }
+    }
+    return highest;
+  }
+
+  /**
+   * CSS selector matching the element with the given ref
+   */
+  static selector(ref: string): string {
+    if (!REF_PATTERN.test(ref)) {
+      throw new Error(`Invalid element ref "${ref}"`);
+    }
+    return `[${REF_ATTRIBUTE}="${ref}"]`;
+  }
+
+  /**
+   * Resolve a ref to its element, or null if it is no longer in the page
+   */
+  static resolve(ref: string): Element | null {
+    return document.querySelector(this.selector(ref));
+  }
+}
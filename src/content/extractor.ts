@@ -0,0 +1,540 @@
+/**
+ * Structured Extraction - links, images, headings, tables, metadata and outline of a page
+ */
+
+import type { JsonValue } from '../../types';
+import type { Locator, StructuredField, StructuredFieldType } from '../../types/tools';
+import { Schema, type ValidationResult } from '../core/validator';
+import { ElementLocator } from './locators';
+import { PageInfo } from './page-info';
+
+export type ExtractMode = 'links' | 'images' | 'headings' | 'tables' | 'metadata' | 'structure';
+
+export interface ExtractOptions {
+  /** CSS selector of the element to extract from (default: the whole document) */
+  selector?: string;
+  /** Only return links to the page's own origin */
+  sameOriginOnly?: boolean;
+  /** Case-insensitive substring that an item's URL or text must contain */
+  filter?: string;
+  /** Maximum number of items to return */
+  limit?: number;
+}
+
+export interface ExtractedTable {
+  index: number;
+  caption?: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface StructuredResult {
+  total: number;
+  items: JsonObject[];
+  /** Fields that could not be read, per item index */
+  failures: Array<{ index: number; fields: Record<string, string> }>;
+  truncated?: boolean;
+  [key: string]: JsonValue | undefined;
+}
+
+type JsonObject = { [key: string]: JsonValue };
+
+// Output schemas values must satisfy after coercion
+const FIELD_SCHEMAS: Record<StructuredFieldType, Schema<JsonValue>> = {
+  string: Schema.string(),
+  number: Schema.number(),
+  boolean: Schema.boolean(),
+  url: Schema.string({ pattern: /^[a-z][a-z\d+.-]*:/i }),
+  date: Schema.string({ pattern: /^\d{4}-\d{2}-\d{2}T/ }),
+};
+
+const DEFAULT_LIMIT = 500;
+
+// Elements whose microdata value is a URL attribute
+const MICRODATA_URL_ATTRIBUTES: Record<string, string> = {
+  A: 'href', AREA: 'href', LINK: 'href',
+  AUDIO: 'src', EMBED: 'src', IFRAME: 'src', IMG: 'src', SOURCE: 'src', TRACK: 'src', VIDEO: 'src',
+  OBJECT: 'data',
+};
+
+export class Extractor {
+  /**
+   * Extract one kind of structured data from the page
+   */
+  static extract(mode: ExtractMode, options: ExtractOptions = {}): JsonValue {
+    const root: ParentNode | null = options.selector ? document.querySelector(options.selector) : document;
+    if (!root) {
+      throw new Error(`Element "${options.selector}" not found`);
+    }
+
+    const filter = options.filter?.toLowerCase();
+    const matches = (...values: Array<string | undefined>) =>
+      !filter || values.some((value) => value?.toLowerCase().includes(filter));
+
+    switch (mode) {
+      case 'links':
+        return this.page(
+          PageInfo.getLinks(root).filter((link) =>
+            !link.href.startsWith('javascript:')
+            && (!options.sameOriginOnly || this.isSameOrigin(link.href))
+            && matches(link.href, link.text, link.title)
+          ),
+          options.limit
+        );
+      case 'images':
+        return this.page(PageInfo.getImages(root).filter((image) => matches(image.src, image.alt)), options.limit);
+      case 'headings':
+        return this.page(PageInfo.getHeadings(root).filter((heading) => matches(heading.text)), options.limit);
+      case 'structure':
+        return this.page(PageInfo.getPageStructure(root).filter((section) => matches(section.text)), options.limit);
+      case 'tables':
+        return this.page(
+          this.getTables(root).filter((table) => matches(table.caption, ...table.headers)),
+          options.limit
+        );
+      case 'metadata':
+        return this.getMetadata(root);
+    }
+  }
+
+  /**
+   * For every element matching the root locator, read a JSON object described by a field map
+   */
+  static extractStructured(
+    root: Locator,
+    fields: Record<string, StructuredField>,
+    limit = DEFAULT_LIMIT
+  ): StructuredResult {
+    const elements = ElementLocator.find(root, true) ?? [];
+    const result: StructuredResult = { total: elements.length, items: [], failures: [] };
+
+    elements.slice(0, limit).forEach((element, index) => {
+      const item: JsonObject = {};
+      const failed: Record<string, string> = {};
+
+      for (const [name, field] of Object.entries(fields)) {
+        const value = this.readField(element, field);
+        if (value.success) {
+          item[name] = value.data ?? null;
+        } else {
+          item[name] = null;
+          failed[name] = value.error ?? 'Failed to read field';
+        }
+      }
+
+      result.items.push(item);
+      if (Object.keys(failed).length > 0) {
+        result.failures.push({ index, fields: failed });
+      }
+    });
+
+    if (elements.length > limit) {
+      result.truncated = true;
+    }
+    return result;
+  }
+
+  /**
+   * Extract HTML tables as arrays of row objects keyed by column header
+   */
+  static getTables(root: ParentNode = document): ExtractedTable[] {
+    return Array.from(root.querySelectorAll('table'))
+      .map((table, index) => this.readTable(table, index))
+      .filter((table) => table.rows.length > 0 || table.headers.length > 0);
+  }
+
+  /**
+   * Read page metadata: title, description, canonical URL, OpenGraph, Twitter
+   * cards, other meta tags, JSON-LD and microdata
+   */
+  static getMetadata(root: ParentNode = document): JsonObject {
+    const openGraph: JsonObject = {};
+    const twitter: JsonObject = {};
+    const meta: JsonObject = {};
+
+    document.querySelectorAll('meta[content]').forEach((element) => {
+      const content = element.getAttribute('content') || '';
+      const property = element.getAttribute('property');
+      const name = element.getAttribute('name');
+
+      if (property?.startsWith('og:')) {
+        this.addValue(openGraph, property.substring(3), content);
+      } else if ((name ?? property)?.startsWith('twitter:')) {
+        this.addValue(twitter, (name ?? property)!.substring(8), content);
+      } else if (property?.includes(':')) {
+        // Other OpenGraph namespaces (article:, book:, profile:, ...)
+        this.addValue(openGraph, property, content);
+      } else if (name) {
+        this.addValue(meta, name, content);
+      }
+    });
+
+    const jsonLd: JsonValue[] = [];
+    const jsonLdErrors: string[] = [];
+    root.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+      try {
+        jsonLd.push(JSON.parse(script.textContent || ''));
+      } catch (error) {
+        jsonLdErrors.push(error instanceof Error ? error.message : String(error));
+      }
+    });
+
+    const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href;
+    const description = document.querySelector('meta[name="description"]')?.getAttribute('content');
+
+    const metadata: JsonObject = {
+      url: window.location.href,
+      title: document.title,
+      ...(description && { description }),
+      ...(canonical && { canonical }),
+      ...(document.documentElement.lang && { lang: document.documentElement.lang }),
+      openGraph,
+      twitter,
+      meta,
+      jsonLd,
+      microdata: this.getMicrodata(root),
+    };
+    if (jsonLdErrors.length > 0) {
+      metadata.jsonLdErrors = jsonLdErrors;
+    }
+    return metadata;
+  }
+
+  /**
+   * Read top-level microdata items (itemscope elements that are not a property of another item)
+   */
+  static getMicrodata(root: ParentNode = document): JsonObject[] {
+    return Array.from(root.querySelectorAll('[itemscope]:not([itemprop])'))
+      .map((item) => this.readMicrodataItem(item, new Set()));
+  }
+
+  /**
+   * Read one field of an item, coerced to the field's type
+   */
+  private static readField(item: Element, field: StructuredField): ValidationResult<JsonValue> {
+    let targets: Element[];
+    if (field.locator) {
+      targets = ElementLocator.find(field.locator, field.all, item) ?? [];
+    } else if (field.selector) {
+      targets = Array.from(item.querySelectorAll(field.selector));
+    } else {
+      targets = [item];
+    }
+
+    if (field.all) {
+      const values: JsonValue[] = [];
+      for (const target of targets) {
+        const value = this.readValue(target, field);
+        if (!value.success) {
+          return value;
+        }
+        values.push(value.data ?? null);
+      }
+      return { success: true, data: values };
+    }
+
+    if (targets.length === 0) {
+      return {
+        success: false,
+        error: `No element matches ${field.locator ? ElementLocator.describe(field.locator) : `"${field.selector}"`}`,
+      };
+    }
+    return this.readValue(targets[0], field);
+  }
+
+  private static readValue(element: Element, field: StructuredField): ValidationResult<JsonValue> {
+    const type = field.type ?? 'string';
+    let raw: unknown;
+
+    if (field.property) {
+      raw = (element as unknown as Record<string, unknown>)[field.property];
+      if (raw === undefined) {
+        return { success: false, error: `Property "${field.property}" is not defined on <${element.tagName.toLowerCase()}>` };
+      }
+    } else if (field.attribute) {
+      raw = element.getAttribute(field.attribute);
+      if (raw === null) {
+        // A missing boolean attribute (disabled, hidden, ...) means false
+        return type === 'boolean'
+          ? { success: true, data: false }
+          : { success: false, error: `Attribute "${field.attribute}" is missing` };
+      }
+      if (type === 'boolean' && raw === '') {
+        return { success: true, data: true };
+      }
+    } else {
+      raw = ((element as HTMLElement).innerText ?? element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    }
+
+    const coerced = this.coerce(raw, type);
+    return coerced.success ? FIELD_SCHEMAS[type].validate(coerced.data) : { success: false, error: coerced.error };
+  }
+
+  /**
+   * Convert a raw DOM value (text, attribute or property) to a field type
+   */
+  static coerce(raw: unknown, type: StructuredFieldType): ValidationResult<unknown> {
+    const invalid = (what: string): ValidationResult<unknown> => ({
+      success: false,
+      error: `${JSON.stringify(raw)} is not ${what}`,
+    });
+
+    if (typeof raw === 'object' && raw !== null) {
+      return invalid(`a ${type}`);
+    }
+    const text = String(raw ?? '').trim();
+
+    switch (type) {
+      case 'string':
+        return { success: true, data: text };
+      case 'number': {
+        const value = typeof raw === 'number' ? raw : this.parseNumber(text);
+        return value === null ? invalid('a number') : { success: true, data: value };
+      }
+      case 'boolean':
+        if (typeof raw === 'boolean') return { success: true, data: raw };
+        if (/^(true|yes|y|on|1|checked|selected)$/i.test(text)) return { success: true, data: true };
+        if (/^(false|no|n|off|0)?$/i.test(text)) return { success: true, data: false };
+        return invalid('a boolean');
+      case 'url':
+        try {
+          return text ? { success: true, data: new URL(text, document.baseURI).href } : invalid('a URL');
+        } catch {
+          return invalid('a URL');
+        }
+      case 'date': {
+        const date = new Date(typeof raw === 'number' ? raw : text);
+        return Number.isNaN(date.getTime()) ? invalid('a date') : { success: true, data: date.toISOString() };
+      }
+    }
+  }
+
+  /**
+   * Parse the first number in a string, e.g. "$1,299.00", "1.299,00 €" or "-4.5%"
+   */
+  static parseNumber(text: string): number | null {
+    const match = /-?\d[\d.,\s]*/.exec(text.replace(/\u00a0/g, ' '));
+    if (!match) {
+      return null;
+    }
+
+    let digits = match[0].replace(/\s/g, '').replace(/[.,]$/, '');
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+
+    if (lastComma > lastDot) {
+      // "1.299,00" or "4,5": comma is the decimal separator, unless it groups thousands ("1,299")
+      const decimals = digits.length - lastComma - 1;
+      digits = decimals === 3 && lastDot === -1
+        ? digits.replace(/,/g, '')
+        : digits.replace(/\./g, '').replace(',', '.');
+    } else {
+      // "1,299.00", or "1.234.567" where several dots group thousands
+      digits = digits.replace(/,/g, '');
+      if (digits.indexOf('.') !== digits.lastIndexOf('.')) {
+        digits = digits.replace(/\./g, '');
+      }
+    }
+
+    const value = Number(digits);
+    return Number.isFinite(value) ? value : null;
+  }
+
+  static readTable(table: HTMLTableElement, index: number): ExtractedTable {
+    const grid = this.tableGrid(table);
+    const headerCount = this.countHeaderRows(table);
+    const width = Math.max(0, ...grid.map((row) => row.length));
+
+    // Headers: combine stacked header rows per column ("Price / USD"), fall back to column numbers
+    const seen = new Map<string, number>();
+    const headers = Array.from({ length: width }, (_, column) => {
+      const parts: string[] = [];
+      for (const row of grid.slice(0, headerCount)) {
+        const text = row[column]?.text ?? '';
+        if (text && parts[parts.length - 1] !== text) {
+          parts.push(text);
+        }
+      }
+
+      const header = parts.join(' / ') || `column${column + 1}`;
+      const count = (seen.get(header) ?? 0) + 1;
+      seen.set(header, count);
+      return count > 1 ? `${header} (${count})` : header;
+    });
+
+    const rows = grid.slice(headerCount)
+      .filter((row) => row.some((cell) => cell?.text))
+      .map((row) => {
+        const record: Record<string, string> = {};
+        headers.forEach((header, column) => {
+          record[header] = row[column]?.text ?? '';
+        });
+        return record;
+      });
+
+    const caption = table.caption ? table.caption.textContent?.replace(/\s+/g, ' ').trim() : undefined;
+    return {
+      index,
+      ...(caption && { caption }),
+      headers,
+      rows,
+    };
+  }
+
+  /**
+   * Lay out a table's cells on a grid, repeating cells that span several rows or columns
+   */
+  static tableGrid(table: HTMLTableElement): Array<Array<{ text: string } | undefined>> {
+    const grid: Array<Array<{ text: string } | undefined>> = [];
+
+    Array.from(table.rows).forEach((row, rowIndex) => {
+      grid[rowIndex] ??= [];
+      let column = 0;
+
+      for (const cell of Array.from(row.cells)) {
+        while (grid[rowIndex][column]) {
+          column++;
+        }
+
+        const value = { text: (cell.textContent || '').replace(/\s+/g, ' ').trim() };
+        // Cells never span past their row group (thead, tbody or tfoot); rowspan="0" spans the rest of it
+        const section = row.parentElement as HTMLTableSectionElement | HTMLTableElement;
+        const rowsLeftInGroup = section.rows.length - row.sectionRowIndex;
+        const rowSpan = cell.rowSpan === 0 ? rowsLeftInGroup : Math.min(Math.max(1, cell.rowSpan), rowsLeftInGroup);
+        const colSpan = Math.max(1, Math.min(cell.colSpan, 1000));
+
+        for (let r = 0; r < rowSpan && rowIndex + r < table.rows.length; r++) {
+          grid[rowIndex + r] ??= [];
+          for (let c = 0; c < colSpan; c++) {
+            grid[rowIndex + r][column + c] = value;
+          }
+        }
+        column += colSpan;
+      }
+    });
+
+    return grid;
+  }
+
+  /**
+   * Number of leading header rows: the rows of <thead>, else the leading rows made only of <th> cells
+   */
+  private static countHeaderRows(table: HTMLTableElement): number {
+    if (table.tHead && table.tHead.rows.length > 0) {
+      return table.tHead.rows.length;
+    }
+
+    let count = 0;
+    for (const row of Array.from(table.rows)) {
+      const cells = Array.from(row.cells);
+      if (cells.length === 0 || !cells.every((cell) => cell.tagName === 'TH')) {
+        break;
+      }
+      count++;
+    }
+
+    // A table made only of <th> rows has no body: treat the first row as header
+    return count === table.rows.length ? Math.min(count, 1) : count;
+  }
+
+  private static readMicrodataItem(item: Element, visited: Set<Element>): JsonObject {
+    visited.add(item);
+    const properties: JsonObject = {};
+
+    for (const element of this.itemProperties(item)) {
+      const value = element.hasAttribute('itemscope')
+        ? (visited.has(element) ? null : this.readMicrodataItem(element, visited))
+        : this.microdataValue(element);
+
+      for (const name of (element.getAttribute('itemprop') || '').split(/\s+/).filter(Boolean)) {
+        this.addValue(properties, name, value);
+      }
+    }
+
+    const type = item.getAttribute('itemtype')?.split(/\s+/).filter(Boolean);
+    const id = item.getAttribute('itemid');
+    return {
+      ...(type && type.length > 0 && { type: type.length === 1 ? type[0] : type }),
+      ...(id && { id }),
+      properties,
+    };
+  }
+
+  /**
+   * Property elements of an item: descendants with itemprop whose nearest item is this one,
+   * plus elements referenced by itemref
+   */
+  private static itemProperties(item: Element): Element[] {
+    // Properties below a nested item belong to that item
+    const ownedBy = (scope: Element) => (element: Element) => {
+      const nearest = element.parentElement?.closest('[itemscope]');
+      return !nearest || nearest === scope || !scope.contains(nearest);
+    };
+
+    const owned = Array.from(item.querySelectorAll('[itemprop]')).filter(ownedBy(item));
+
+    const referenced = (item.getAttribute('itemref') || '').split(/\s+/).filter(Boolean)
+      .map((id) => document.getElementById(id))
+      .filter((element): element is HTMLElement => element !== null)
+      .flatMap((element) => [
+        ...(element.hasAttribute('itemprop') ? [element] : []),
+        ...Array.from(element.querySelectorAll('[itemprop]')).filter(ownedBy(element)),
+      ]);
+
+    return [...owned, ...referenced];
+  }
+
+  private static microdataValue(element: Element): string {
+    const tag = element.tagName.toUpperCase();
+
+    if (tag === 'META') {
+      return element.getAttribute('content') || '';
+    }
+    const urlAttribute = MICRODATA_URL_ATTRIBUTES[tag];
+    if (urlAttribute) {
+      const value = element.getAttribute(urlAttribute);
+      try {
+        return value ? new URL(value, document.baseURI).href : '';
+      } catch {
+        return value || '';
+      }
+    }
+    if (tag === 'DATA' || tag === 'METER') {
+      return element.getAttribute('value') || '';
+    }
+    if (tag === 'TIME' && element.hasAttribute('datetime')) {
+      return element.getAttribute('datetime') || '';
+    }
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Set a key, turning repeated keys into arrays
+   */
+  private static addValue(target: JsonObject, key: string, value: JsonValue) {
+    const existing = target[key];
+    if (existing === undefined) {
+      target[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      target[key] = [existing, value];
+    }
+  }
+
+  private static page<T>(items: T[], limit = DEFAULT_LIMIT): JsonValue {
+    return {
+      total: items.length,
+      items: items.slice(0, limit) as unknown as JsonValue[],
+      ...(items.length > limit && { truncated: true }),
+    };
+  }
+
+  private static isSameOrigin(href: string): boolean {
+    try {
+      return new URL(href).origin === window.location.origin;
+    } catch {
+      return false;
+    }
+  }
+}
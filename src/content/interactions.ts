@@ -4,6 +4,9 @@
 
 import { WaitFor } from './wait-for';
 import { ElementLocator, type Locator } from './locators';
+import { Editable, type EditResult } from './editable';
+import { Keyboard } from './keyboard';
+import { getKeyDefinition, parseKeySequence } from '../core/keyboard';
 
 export interface ClickOptions {
   scrollIntoView?: boolean;
@@ -52,14 +55,13 @@ export class Interactions {
 
     try {
       const locator = ElementLocator.parse(selector);
-      const locatorValue = typeof locator === 'string' ? locator : locator.value;
 
       let element: Element;
       if (waitForClickable) {
-        const result = await WaitFor.clickable(locatorValue);
+        const result = await WaitFor.clickable(locator);
         element = Array.isArray(result) ? result[0] : result;
       } else {
-        const result = await WaitFor.element(locatorValue);
+        const result = await WaitFor.element(locator);
         element = Array.isArray(result) ? result[0] : result;
       }
 
@@ -166,13 +168,13 @@ export class Interactions {
   }
 
   /**
-   * Fill an input field
+   * Fill an input field, textarea, select or contenteditable in one edit
    */
   static async fill(
     selector: string | Locator,
     value: string,
     options: FillOptions = {}
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<EditResult> {
     const {
       clear = true,
       dispatchEvents = true,
@@ -181,57 +183,20 @@ export class Interactions {
 
     try {
       const locator = ElementLocator.parse(selector);
-      const locatorValue = typeof locator === 'string' ? locator : locator.value;
-      const waitResult = await WaitFor.visible(locatorValue);
-      const element = Array.isArray(waitResult) ? waitResult[0] : waitResult;
+      const waitResult = await WaitFor.visible(locator);
+      const element = Editable.resolve(Array.isArray(waitResult) ? waitResult[0] : waitResult);
 
-      if (
-        !(
-          element instanceof HTMLInputElement ||
-          element instanceof HTMLTextAreaElement ||
-          element instanceof HTMLSelectElement
-        )
-      ) {
-        return { success: false, error: 'Element is not an input, textarea, or select' };
+      if (!element) {
+        return { success: false, error: 'Element is not an input, textarea, select or contenteditable' };
       }
 
       element.scrollIntoView({ behavior: 'smooth', block: 'center' });
       await new Promise((resolve) => setTimeout(resolve, 300));
-      element.focus();
-
-      if (dispatchEvents) {
-        element.dispatchEvent(new Event('focus', { bubbles: true }));
-      }
-
-      // Clear if requested
-      if (clear && (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) {
-        element.value = '';
-
-        if (dispatchEvents) {
-          element.dispatchEvent(new InputEvent('input', { bubbles: true, data: '' }));
-          element.dispatchEvent(new Event('change', { bubbles: true }));
-        }
-      }
-
-      // Set value
-      if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-        element.value = value;
-
-        if (dispatchEvents) {
-          element.dispatchEvent(new InputEvent('input', { bubbles: true, data: value }));
-          element.dispatchEvent(new Event('change', { bubbles: true }));
-        }
-      } else if (element instanceof HTMLSelectElement) {
-        element.value = value;
-
-        if (dispatchEvents) {
-          element.dispatchEvent(new Event('change', { bubbles: true }));
-        }
-      }
 
+      const result = await Editable.fill(element, value, { clear, dispatchEvents });
       await new Promise((resolve) => setTimeout(resolve, delay));
 
-      return { success: true };
+      return result;
     } catch (error) {
       return {
         success: false,
@@ -247,42 +212,21 @@ export class Interactions {
     selector: string | Locator,
     text: string,
     options: TypeOptions = {}
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<EditResult> {
     const { delay = 50, clear = true } = options;
 
     try {
-      const waitResult = await WaitFor.visible(
-        typeof selector === 'string' ? selector : selector.value
-      );
-      const element = Array.isArray(waitResult) ? waitResult[0] : waitResult;
+      const waitResult = await WaitFor.visible(ElementLocator.parse(selector));
+      const element = Editable.resolve(Array.isArray(waitResult) ? waitResult[0] : waitResult);
 
-      if (
-        !(
-          element instanceof HTMLInputElement ||
-          element instanceof HTMLTextAreaElement
-        )
-      ) {
-        return { success: false, error: 'Element is not an input or textarea' };
+      if (!element || element instanceof HTMLSelectElement) {
+        return { success: false, error: 'Element is not an input, textarea or contenteditable' };
       }
 
       element.scrollIntoView({ behavior: 'smooth', block: 'center' });
       await new Promise((resolve) => setTimeout(resolve, 300));
-      element.focus();
-
-      if (clear) {
-        element.value = '';
-      }
-
-      // Type each character
-      for (const char of text) {
-        element.value += char;
-        element.dispatchEvent(new InputEvent('input', { bubbles: true, data: char }));
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-
-      element.dispatchEvent(new Event('change', { bubbles: true }));
 
-      return { success: true };
+      return await Editable.type(element, text, { clear, delay });
     } catch (error) {
       return {
         success: false,
@@ -292,7 +236,7 @@ export class Interactions {
   }
 
   /**
-   * Press a key
+   * Press a key on the focused element
    */
   static async pressKey(
     key: string,
@@ -306,20 +250,11 @@ export class Interactions {
     try {
       const { ctrl = false, alt = false, shift = false, meta = false } = options;
 
-      const eventInit: KeyboardEventInit = {
-        key,
-        code: key,
-        bubbles: true,
-        cancelable: true,
-        ctrlKey: ctrl,
-        altKey: alt,
-        shiftKey: shift,
-        metaKey: meta,
-      };
+      // Keys missing from the US table (e.g. media keys, accented letters) keep their name as code
+      const definition = getKeyDefinition(key, shift)
+        ?? { key, code: key, keyCode: 0, ...([...key].length === 1 && { text: key }) };
 
-      // Dispatch keydown and keyup
-      document.dispatchEvent(new KeyboardEvent('keydown', eventInit));
-      document.dispatchEvent(new KeyboardEvent('keyup', eventInit));
+      await Keyboard.press([{ key: definition, modifiers: { ctrl, alt, shift: shift || definition.shift, meta } }]);
 
       return { success: true };
     } catch (error) {
@@ -330,6 +265,23 @@ export class Interactions {
     }
   }
 
+  /**
+   * Press a key sequence such as "Control+Shift+K" or "Tab Tab Enter" on the focused element
+   */
+  static async pressKeys(
+    keys: string,
+    options: { delay?: number } = {}
+  ): Promise<{ success: boolean; target?: string; error?: string }> {
+    try {
+      return await Keyboard.press(parseKeySequence(keys), options);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Hover over an element
    */
@@ -341,8 +293,7 @@ export class Interactions {
 
     try {
       const locator = ElementLocator.parse(selector);
-      const locatorValue = typeof locator === 'string' ? locator : locator.value;
-      const waitResult = await WaitFor.visible(locatorValue);
+      const waitResult = await WaitFor.visible(locator);
       const element = Array.isArray(waitResult) ? waitResult[0] : waitResult;
 
       if (scrollIntoView) {
@@ -373,6 +324,124 @@ export class Interactions {
     }
   }
 
+  /**
+   * Scroll an element into view and return its center in the top-level viewport,
+   * for trusted input. `point` is missing inside cross-origin frames.
+   */
+  static async getClickPoint(
+    selector: string | Locator,
+    options: { waitForClickable?: boolean } = {}
+  ): Promise<{ success: boolean; point?: { x: number; y: number }; error?: string }> {
+    const { waitForClickable = true } = options;
+
+    try {
+      const locator = ElementLocator.parse(selector);
+      const result = waitForClickable ? await WaitFor.clickable(locator) : await WaitFor.visible(locator);
+      const element = Array.isArray(result) ? result[0] : result;
+
+      element.scrollIntoView({ behavior: 'instant', block: 'center', inline: 'center' });
+      await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+
+      const offset = this.getFrameOffset();
+      if (!offset) {
+        return { success: true };
+      }
+
+      const rect = element.getBoundingClientRect();
+      return {
+        success: true,
+        point: {
+          x: offset.x + rect.left + rect.width / 2,
+          y: offset.y + rect.top + rect.height / 2,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Position of this frame's viewport in the top-level viewport, or null if an
+   * ancestor frame is cross-origin
+   */
+  static getFrameOffset(): { x: number; y: number } | null {
+    let x = 0;
+    let y = 0;
+
+    for (let current: Window = window; current !== current.parent; current = current.parent) {
+      // frameElement is null when the parent is cross-origin
+      const frame = current.frameElement;
+      if (!frame) {
+        return null;
+      }
+
+      const rect = frame.getBoundingClientRect();
+      const style = current.parent.getComputedStyle(frame);
+      x += rect.left + frame.clientLeft + parseFloat(style.paddingLeft);
+      y += rect.top + frame.clientTop + parseFloat(style.paddingTop);
+    }
+
+    return { x, y };
+  }
+
+  /**
+   * Focus an element, optionally selecting its content so typing replaces it
+   */
+  static async focus(
+    selector: string | Locator,
+    options: { select?: boolean } = {}
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const waitResult = await WaitFor.visible(ElementLocator.parse(selector));
+      const element = Array.isArray(waitResult) ? waitResult[0] : waitResult;
+
+      if (!(element instanceof HTMLElement)) {
+        return { success: false, error: 'Element cannot be focused' };
+      }
+
+      element.scrollIntoView({ behavior: 'instant', block: 'center' });
+      element.focus();
+
+      if (options.select) {
+        if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+          element.select();
+        } else if (element.isContentEditable) {
+          const range = document.createRange();
+          range.selectNodeContents(element);
+          const selection = window.getSelection();
+          selection?.removeAllRanges();
+          selection?.addRange(range);
+        }
+      }
+
+      if (document.activeElement !== element && !element.contains(document.activeElement)) {
+        return { success: false, error: 'Element did not take focus' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Scroll the window to a document position and wait for it to settle
+   */
+  static async scrollTo(x: number, y: number): Promise<{ scrollX: number; scrollY: number }> {
+    window.scrollTo({ left: x, top: y, behavior: 'instant' });
+
+    // Wait two frames so layout and lazy content catch up before capturing
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+
+    return { scrollX: window.scrollX, scrollY: window.scrollY };
+  }
+
   /**
    * Select an option from a select element
    */
@@ -382,8 +451,7 @@ export class Interactions {
   ): Promise<{ success: boolean; error?: string }> {
     try {
       const locator = ElementLocator.parse(selector);
-      const locatorValue = typeof locator === 'string' ? locator : locator.value;
-      const waitResult = await WaitFor.visible(locatorValue);
+      const waitResult = await WaitFor.visible(locator);
       const element = Array.isArray(waitResult) ? waitResult[0] : waitResult;
 
       if (!(element instanceof HTMLSelectElement)) {
@@ -415,8 +483,7 @@ export class Interactions {
   ): Promise<{ success: boolean; text?: string; error?: string }> {
     try {
       const locator = ElementLocator.parse(selector);
-      const locatorValue = typeof locator === 'string' ? locator : locator.value;
-      const waitResult = await WaitFor.element(locatorValue);
+      const waitResult = await WaitFor.element(locator);
       const element = Array.isArray(waitResult) ? waitResult[0] : waitResult;
 
       return { success: true, text: element.textContent?.trim() || '' };
@@ -437,8 +504,7 @@ export class Interactions {
   ): Promise<{ success: boolean; value?: string; error?: string }> {
     try {
       const locator = ElementLocator.parse(selector);
-      const locatorValue = typeof locator === 'string' ? locator : locator.value;
-      const waitResult = await WaitFor.element(locatorValue);
+      const waitResult = await WaitFor.element(locator);
       const element = Array.isArray(waitResult) ? waitResult[0] : waitResult;
 
       return {
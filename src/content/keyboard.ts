@@ -0,0 +1,378 @@
+/**
+ * Keyboard - synthetic key presses with the browser's default actions
+ *
+ * Synthetic key events do nothing by themselves, so after an uncancelled
+ * keydown this performs what the browser would: insert text (with keypress,
+ * beforeinput and input), delete, move the caret, select all, move focus on
+ * Tab and activate buttons and links. Events go to the focused element, found
+ * through open shadow roots and same-origin iframes.
+ */
+
+import { getKeyDefinition, isModifierKey, type KeyChord, type KeyDefinition, type Modifiers } from '../core/keyboard';
+import { Editable } from './editable';
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+const MODIFIER_KEYS = [
+  ['ctrl', 'Control'],
+  ['alt', 'Alt'],
+  ['shift', 'Shift'],
+  ['meta', 'Meta'],
+] as const;
+
+// Input types whose caret and selection can be read (others report null)
+const SELECTABLE_INPUT_TYPES = new Set(['text', 'search', 'url', 'tel', 'password']);
+
+const TABBABLE_SELECTOR = [
+  'a[href]',
+  'area[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  'iframe',
+  'summary',
+  '[tabindex]',
+  '[contenteditable]:not([contenteditable="false"])',
+].join(', ');
+
+export class Keyboard {
+  /**
+   * Press each chord in turn on the focused element
+   */
+  static async press(chords: KeyChord[], options: { delay?: number } = {}): Promise<{ success: boolean; target: string }> {
+    const { delay = 50 } = options;
+
+    for (const [index, chord] of chords.entries()) {
+      if (index > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      // Looked up per chord: focus may have moved (Tab, or the page's own handlers)
+      this.pressChord(this.activeElement(), chord);
+    }
+
+    return { success: true, target: this.describe(this.activeElement()) };
+  }
+
+  /**
+   * The focused element, descending into open shadow roots and same-origin iframes
+   */
+  static activeElement(): Element {
+    let element: Element | null = document.activeElement;
+
+    while (element) {
+      const shadowActive = element.shadowRoot?.activeElement;
+      if (shadowActive) {
+        element = shadowActive;
+        continue;
+      }
+
+      if (element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+        let frameDocument: Document | null = null;
+        try {
+          // Throws or returns null for cross-origin frames
+          frameDocument = (element as HTMLIFrameElement).contentDocument;
+        } catch {
+          frameDocument = null;
+        }
+        const frameActive = frameDocument?.activeElement;
+        if (frameActive && frameActive !== frameDocument!.body) {
+          element = frameActive;
+          continue;
+        }
+      }
+      break;
+    }
+
+    return element ?? document.body;
+  }
+
+  private static pressChord(target: Element, chord: KeyChord) {
+    const { key, modifiers } = chord;
+    const held: Modifiers = {};
+
+    // Modifiers go down first, each one reported as held from its own keydown
+    for (const [flag, name] of MODIFIER_KEYS) {
+      if (modifiers[flag] && key.key !== name) {
+        held[flag] = true;
+        this.dispatchKey(target, 'keydown', getKeyDefinition(name)!, held);
+      }
+    }
+    if (isModifierKey(key.key)) {
+      held[MODIFIER_KEYS.find(([, name]) => name === key.key)![0]] = true;
+    }
+
+    if (this.dispatchKey(target, 'keydown', key, held)) {
+      this.defaultAction(target, key, held);
+    }
+    // Focus may have moved during the default action; keyup goes to the new element
+    this.dispatchKey(this.activeElement(), 'keyup', key, held);
+
+    for (const [flag, name] of [...MODIFIER_KEYS].reverse()) {
+      if (held[flag] && key.key !== name) {
+        held[flag] = false;
+        this.dispatchKey(this.activeElement(), 'keyup', getKeyDefinition(name)!, held);
+      }
+    }
+  }
+
+  /**
+   * Dispatch a key event; false if it was cancelled
+   */
+  private static dispatchKey(target: Element, type: 'keydown' | 'keypress' | 'keyup', key: KeyDefinition, modifiers: Modifiers): boolean {
+    const isPress = type === 'keypress';
+    const charCode = key.text ? key.text.charCodeAt(0) : 0;
+    return target.dispatchEvent(new KeyboardEvent(type, {
+      key: key.key,
+      code: key.code,
+      location: key.location ?? 0,
+      keyCode: isPress ? charCode : key.keyCode,
+      charCode: isPress ? charCode : 0,
+      which: isPress ? charCode : key.keyCode,
+      ctrlKey: modifiers.ctrl ?? false,
+      altKey: modifiers.alt ?? false,
+      shiftKey: modifiers.shift ?? false,
+      metaKey: modifiers.meta ?? false,
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+    }));
+  }
+
+  /**
+   * What the browser does after an uncancelled keydown
+   */
+  private static defaultAction(target: Element, key: KeyDefinition, modifiers: Modifiers) {
+    const shortcut = modifiers.ctrl || modifiers.meta || modifiers.alt;
+
+    if (shortcut) {
+      if (key.code === 'KeyA' && (modifiers.ctrl || modifiers.meta) && !modifiers.alt) {
+        this.selectAll(target);
+      }
+      return;
+    }
+
+    switch (key.key) {
+      case 'Tab':
+        this.moveFocus(target, modifiers.shift ? -1 : 1);
+        return;
+      case 'Backspace':
+      case 'Delete':
+        this.deleteContent(target, key.key === 'Backspace' ? 'backward' : 'forward');
+        return;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+      case 'ArrowUp':
+      case 'ArrowDown':
+      case 'Home':
+      case 'End':
+        this.moveCaret(target, key.key);
+        return;
+    }
+
+    if (key.text === undefined) {
+      return;
+    }
+
+    // Printable keys (and Enter) fire keypress; cancelling it stops the character
+    if (!this.dispatchKey(target, 'keypress', key, modifiers)) {
+      return;
+    }
+
+    if (key.key === 'Enter') {
+      this.enter(target, modifiers);
+    } else if (key.key === ' ' && this.isActivatable(target) && !this.isEditable(target)) {
+      (target as HTMLElement).click();
+    } else {
+      this.insertText(target, key.text);
+    }
+  }
+
+  private static enter(target: Element, modifiers: Modifiers) {
+    if (this.isTextField(target)) {
+      if (target.tagName === 'TEXTAREA') {
+        this.insertText(target, '\n', 'insertLineBreak');
+      } else {
+        // Implicit form submission
+        (target as HTMLInputElement).form?.requestSubmit();
+      }
+    } else if (this.isContentEditable(target)) {
+      target.ownerDocument.execCommand(modifiers.shift ? 'insertLineBreak' : 'insertParagraph');
+    } else if (this.isActivatable(target)) {
+      (target as HTMLElement).click();
+    }
+  }
+
+  private static insertText(target: Element, text: string, inputType = 'insertText') {
+    if (this.isContentEditable(target)) {
+      // execCommand fires beforeinput and input itself
+      target.ownerDocument.execCommand('insertText', false, text);
+      return;
+    }
+    if (!this.isTextField(target) || target.readOnly || target.disabled) {
+      return;
+    }
+    if (!Editable.beforeInput(target, inputType, text)) {
+      return;
+    }
+
+    const { start, end } = this.selectionRange(target);
+    this.replaceRange(target, text, start, end);
+    target.dispatchEvent(new InputEvent('input', { bubbles: true, composed: true, inputType, data: text }));
+  }
+
+  private static deleteContent(target: Element, direction: 'backward' | 'forward') {
+    if (this.isContentEditable(target)) {
+      target.ownerDocument.execCommand(direction === 'backward' ? 'delete' : 'forwardDelete');
+      return;
+    }
+    if (!this.isTextField(target) || target.readOnly || target.disabled) {
+      return;
+    }
+
+    let { start, end } = this.selectionRange(target);
+    if (start === end) {
+      if (direction === 'backward' && start > 0) {
+        start--;
+      } else if (direction === 'forward' && end < target.value.length) {
+        end++;
+      } else {
+        return;
+      }
+    }
+
+    const inputType = direction === 'backward' ? 'deleteContentBackward' : 'deleteContentForward';
+    if (!Editable.beforeInput(target, inputType, null)) {
+      return;
+    }
+    this.replaceRange(target, '', start, end);
+    target.dispatchEvent(new InputEvent('input', { bubbles: true, composed: true, inputType }));
+  }
+
+  private static moveCaret(target: Element, key: string) {
+    if (!this.isTextField(target) || !this.supportsSelection(target)) {
+      return;
+    }
+
+    const { start, end } = this.selectionRange(target);
+    const length = target.value.length;
+    let position: number;
+    switch (key) {
+      case 'ArrowLeft':
+        position = start === end ? Math.max(start - 1, 0) : start;
+        break;
+      case 'ArrowRight':
+        position = start === end ? Math.min(end + 1, length) : end;
+        break;
+      case 'Home':
+      case 'ArrowUp':
+        position = 0;
+        break;
+      default:
+        position = length;
+    }
+    target.setSelectionRange(position, position);
+  }
+
+  private static selectAll(target: Element) {
+    if (this.isTextField(target)) {
+      target.select();
+    } else {
+      target.ownerDocument.execCommand('selectAll');
+    }
+  }
+
+  /**
+   * Move focus to the next (or previous) tabbable element in the element's document
+   */
+  private static moveFocus(target: Element, direction: 1 | -1) {
+    const doc = target.ownerDocument;
+    const tabbable = Array.from(doc.querySelectorAll<HTMLElement>(TABBABLE_SELECTOR))
+      .filter((element) => element.tabIndex >= 0 && this.isFocusable(element));
+
+    // Positive tabindex values come first, in order, then everything else in document order
+    const ordered = [
+      ...tabbable.filter((element) => element.tabIndex > 0).sort((a, b) => a.tabIndex - b.tabIndex),
+      ...tabbable.filter((element) => element.tabIndex === 0),
+    ];
+    if (ordered.length === 0) {
+      return;
+    }
+
+    const current = ordered.indexOf(target as HTMLElement);
+    const next = current === -1
+      ? (direction === 1 ? 0 : ordered.length - 1)
+      : (current + direction + ordered.length) % ordered.length;
+    ordered[next].focus();
+    if (this.isTextField(ordered[next]) && this.supportsSelection(ordered[next])) {
+      ordered[next].select();
+    }
+  }
+
+  private static isFocusable(element: HTMLElement): boolean {
+    if (element.closest('[inert]')) {
+      return false;
+    }
+    const view = element.ownerDocument.defaultView;
+    const style = view?.getComputedStyle(element);
+    if (!style || style.visibility === 'hidden' || style.display === 'none') {
+      return false;
+    }
+    return element.getClientRects().length > 0;
+  }
+
+  private static selectionRange(target: TextField): { start: number; end: number } {
+    if (this.supportsSelection(target)) {
+      return { start: target.selectionStart ?? target.value.length, end: target.selectionEnd ?? target.value.length };
+    }
+    // No caret to read (e.g. email, number): edit at the end
+    return { start: target.value.length, end: target.value.length };
+  }
+
+  private static replaceRange(target: TextField, text: string, start: number, end: number) {
+    const value = target.value.slice(0, start) + text + target.value.slice(end);
+    Editable.setNativeValue(target, value);
+    if (this.supportsSelection(target)) {
+      target.setSelectionRange(start + text.length, start + text.length);
+    }
+  }
+
+  private static supportsSelection(target: TextField): boolean {
+    return target.tagName === 'TEXTAREA' || SELECTABLE_INPUT_TYPES.has((target as HTMLInputElement).type);
+  }
+
+  // Tag checks rather than instanceof: elements in iframes belong to another realm
+  private static isTextField(element: Element): element is TextField {
+    return element.tagName === 'TEXTAREA' || Editable.isTextInput(element);
+  }
+
+  private static isContentEditable(element: Element): element is HTMLElement {
+    return (element as HTMLElement).isContentEditable === true;
+  }
+
+  private static isEditable(element: Element): boolean {
+    return this.isTextField(element) || this.isContentEditable(element);
+  }
+
+  private static isActivatable(element: Element): boolean {
+    const tag = element.tagName;
+    const type = (element as HTMLInputElement).type;
+    return tag === 'BUTTON'
+      || tag === 'SUMMARY'
+      || (tag === 'A' && element.hasAttribute('href'))
+      || (tag === 'INPUT' && ['button', 'submit', 'reset', 'checkbox', 'radio'].includes(type))
+      || element.getAttribute('role') === 'button';
+  }
+
+  /**
+   * Short description of an element for results, e.g. input#email or textarea[name="body"]
+   */
+  private static describe(element: Element): string {
+    const tag = element.tagName.toLowerCase();
+    if (element.id) {
+      return `${tag}#${element.id}`;
+    }
+    const name = element.getAttribute('name');
+    return name ? `${tag}[name="${name}"]` : tag;
+  }
+}
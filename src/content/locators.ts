@@ -2,19 +2,11 @@
  * Element Locators - Support multiple ways to locate elements
  */
 
-export type LocatorType =
-  | 'css'
-  | 'xpath'
-  | 'text'
-  | 'aria-label'
-  | 'role'
-  | 'name'
-  | 'placeholder';
-
-export interface Locator {
-  type: LocatorType;
-  value: string;
-}
+import { PageInfo } from './page-info';
+import { ElementRefs } from './element-refs';
+import type { LocatorType, Locator } from '../../types/tools';
+
+export type { LocatorType, Locator };
 
 export class ElementLocator {
   /**
@@ -35,24 +27,28 @@ export class ElementLocator {
    * Find element by text content
    */
   static byText(text: string, exact = false): Locator {
-    return {
-      type: 'text',
-      value: exact ? text : text,
-    };
+    return { type: 'text', value: text, exact };
+  }
+
+  /**
+   * Find form control by its label (label element, aria-label or aria-labelledby)
+   */
+  static byLabel(label: string, exact = false): Locator {
+    return { type: 'label', value: label, exact };
   }
 
   /**
    * Find element by aria-label
    */
   static byAriaLabel(label: string, exact = false): Locator {
-    return { type: 'aria-label', value: label };
+    return { type: 'aria-label', value: label, exact };
   }
 
   /**
-   * Find element by ARIA role
+   * Find element by ARIA role (explicit or implicit), optionally filtered by accessible name
    */
-  static byRole(role: string): Locator {
-    return { type: 'role', value: role };
+  static byRole(role: string, options: { name?: string; exact?: boolean } = {}): Locator {
+    return { type: 'role', value: role, ...options };
   }
 
   /**
@@ -66,7 +62,14 @@ export class ElementLocator {
    * Find element by placeholder
    */
   static byPlaceholder(placeholder: string, exact = false): Locator {
-    return { type: 'placeholder', value: placeholder };
+    return { type: 'placeholder', value: placeholder, exact };
+  }
+
+  /**
+   * Find element by snapshot ref
+   */
+  static byRef(ref: string): Locator {
+    return { type: 'ref', value: ref };
   }
 
   /**
@@ -81,106 +84,173 @@ export class ElementLocator {
   }
 
   /**
-   * Find element(s) using locator
+   * Human-readable description of a locator, for error messages
+   */
+  static describe(locator: string | Locator): string {
+    const parsed = this.parse(locator);
+    if (parsed.type === 'css') {
+      return parsed.value;
+    }
+
+    let description = `${parsed.type}=${JSON.stringify(parsed.value)}`;
+    if (parsed.name !== undefined) description += ` name=${JSON.stringify(parsed.name)}`;
+    if (parsed.exact) description += ' exact';
+    if (parsed.nth !== undefined) description += ` nth=${parsed.nth}`;
+    if (parsed.within) description = `${this.describe(parsed.within)} >> ${description}`;
+    return description;
+  }
+
+  /**
+   * Find element(s) using locator, optionally inside a root element
    */
-  static find(locator: Locator, all = false): Element[] | null {
+  static find(locator: Locator, all = false, root: ParentNode = document): Element[] | null {
+    if (locator.within) {
+      const scope = this.find(locator.within, false, root);
+      if (!scope) {
+        return all ? [] : null;
+      }
+      root = scope[0];
+    }
+
+    let elements = this.findIn(root, locator);
+
+    if (locator.nth !== undefined) {
+      const index = locator.nth < 0 ? elements.length + locator.nth : locator.nth;
+      elements = elements[index] ? [elements[index]] : [];
+    }
+
+    if (all) {
+      return elements;
+    }
+    return elements.length > 0 ? [elements[0]] : null;
+  }
+
+  /**
+   * Find all elements matching a locator inside a root, in document order
+   */
+  private static findIn(root: ParentNode, locator: Locator): Element[] {
+    const exact = locator.exact ?? false;
+
     switch (locator.type) {
       case 'css':
-        return all
-          ? Array.from(document.querySelectorAll(locator.value))
-          : document.querySelector(locator.value)
-            ? [document.querySelector(locator.value)!]
-            : null;
+        return Array.from(root.querySelectorAll(locator.value));
 
       case 'xpath': {
         const result = document.evaluate(
           locator.value,
-          document,
+          root as Node,
           null,
-          all
-            ? XPathResult.UNORDERED_NODE_SNAPSHOT_TYPE
-            : XPathResult.FIRST_ORDERED_NODE_TYPE
+          XPathResult.ORDERED_NODE_SNAPSHOT_TYPE
         );
 
-        if (all) {
-          const elements: Element[] = [];
-          for (let i = 0; i < result.snapshotLength; i++) {
-            const node = result.snapshotItem(i);
-            if (node instanceof Element) {
-              elements.push(node);
-            }
+        const elements: Element[] = [];
+        for (let i = 0; i < result.snapshotLength; i++) {
+          const node = result.snapshotItem(i);
+          if (node instanceof Element) {
+            elements.push(node);
           }
-          return elements;
-        } else {
-          const node = result.singleNodeValue;
-          return node instanceof Element ? [node] : null;
         }
+        return elements;
       }
 
       case 'text': {
-        const exact = locator.value;
+        const start = root instanceof Document ? root.body : root;
+        if (!start) return [];
+
         const walker = document.createTreeWalker(
-          document.body,
+          start as Node,
           NodeFilter.SHOW_TEXT,
           {
             acceptNode: (node) => {
-              const text = node.textContent?.trim();
-              return text === exact ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
+              const parent = node.parentElement;
+              if (!parent || parent.tagName === 'SCRIPT' || parent.tagName === 'STYLE') {
+                return NodeFilter.FILTER_REJECT;
+              }
+              return this.matchesText(node.textContent, locator.value, exact)
+                ? NodeFilter.FILTER_ACCEPT
+                : NodeFilter.FILTER_SKIP;
             },
           }
         );
 
-        if (all) {
-          const elements: Element[] = [];
-          let node;
-          while ((node = walker.nextNode())) {
-            elements.push(node.parentElement!);
-          }
-          return elements;
-        } else {
-          const node = walker.nextNode();
-          return node?.parentElement ? [node.parentElement] : null;
+        const elements = new Set<Element>();
+        let node;
+        while ((node = walker.nextNode())) {
+          elements.add(node.parentElement!);
         }
+        return Array.from(elements);
       }
 
-      case 'aria-label': {
-        const selector = `[aria-label="${locator.value}"]`;
-        return all
-          ? Array.from(document.querySelectorAll(selector))
-          : document.querySelector(selector)
-            ? [document.querySelector(selector)!]
-            : null;
-      }
+      case 'label':
+        return Array.from(
+          root.querySelectorAll('input, textarea, select, [contenteditable], [aria-label], [aria-labelledby]')
+        ).filter((el) => this.matchesText(this.getLabel(el), locator.value, exact));
 
-      case 'role': {
-        const selector = `[role="${locator.value}"]`;
-        return all
-          ? Array.from(document.querySelectorAll(selector))
-          : document.querySelector(selector)
-            ? [document.querySelector(selector)!]
-            : null;
-      }
+      case 'aria-label':
+        return Array.from(root.querySelectorAll('[aria-label]'))
+          .filter((el) => this.matchesText(el.getAttribute('aria-label'), locator.value, exact));
 
-      case 'name': {
-        const selector = `[name="${locator.value}"]`;
-        return all
-          ? Array.from(document.querySelectorAll(selector))
-          : document.querySelector(selector)
-            ? [document.querySelector(selector)!]
-            : null;
-      }
+      case 'role':
+        return Array.from(root.querySelectorAll('*')).filter((el) => {
+          if (PageInfo.getRole(el) !== locator.value) return false;
+          if (locator.name === undefined) return true;
+          return this.matchesText(PageInfo.getAccessibleName(el), locator.name, exact);
+        });
 
-      case 'placeholder': {
-        const selector = `[placeholder="${locator.value}"]`;
-        return all
-          ? Array.from(document.querySelectorAll(selector))
-          : document.querySelector(selector)
-            ? [document.querySelector(selector)!]
-            : null;
+      case 'name':
+        return Array.from(root.querySelectorAll(`[name="${CSS.escape(locator.value)}"]`));
+
+      case 'placeholder':
+        return Array.from(root.querySelectorAll('[placeholder]'))
+          .filter((el) => this.matchesText(el.getAttribute('placeholder'), locator.value, exact));
+
+      case 'ref': {
+        const element = ElementRefs.resolve(locator.value);
+        return element && (root === document || root.contains(element)) ? [element] : [];
       }
 
       default:
-        return null;
+        return [];
     }
   }
+
+  /**
+   * Label text of a form control
+   */
+  private static getLabel(element: Element): string {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      return labelledBy
+        .split(/\s+/)
+        .map((id) => document.getElementById(id)?.textContent || '')
+        .join(' ');
+    }
+
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel) {
+      return ariaLabel;
+    }
+
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+      return Array.from(element.labels ?? [])
+        .map((label) => label.textContent || '')
+        .join(' ');
+    }
+
+    return '';
+  }
+
+  /**
+   * Exact match compares whitespace-normalized text; otherwise a case-insensitive substring match
+   */
+  private static matchesText(actual: string | null | undefined, expected: string, exact: boolean): boolean {
+    if (!actual) return false;
+
+    const normalizedActual = actual.replace(/\s+/g, ' ').trim();
+    const normalizedExpected = expected.replace(/\s+/g, ' ').trim();
+
+    return exact
+      ? normalizedActual === normalizedExpected
+      : normalizedActual.toLowerCase().includes(normalizedExpected.toLowerCase());
+  }
 }
@@ -0,0 +1,211 @@
+/**
+ * Markdown Conversion - render page content as compact Markdown
+ */
+
+// Elements that never contribute content
+const SKIP_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'OBJECT', 'EMBED',
+  'HEAD', 'META', 'LINK', 'BUTTON', 'SELECT', 'OPTION', 'INPUT', 'TEXTAREA',
+]);
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BODY', 'DETAILS', 'DIALOG', 'DIV', 'DL', 'FIELDSET',
+  'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'HEADER', 'MAIN', 'NAV', 'P', 'SECTION', 'SUMMARY',
+]);
+
+export interface MarkdownOptions {
+  /** Skip elements (and their subtrees) for which this returns true */
+  exclude?: (element: Element) => boolean;
+}
+
+export class Markdown {
+  private static exclude: MarkdownOptions['exclude'];
+
+  /**
+   * Convert an element (default: the document body) to Markdown
+   */
+  static fromElement(root: Element = document.body, options: MarkdownOptions = {}): string {
+    this.exclude = options.exclude;
+    try {
+      return this.block(root)
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    } finally {
+      this.exclude = undefined;
+    }
+  }
+
+  /**
+   * Render the children of a block-level element
+   */
+  private static block(element: Element): string {
+    let output = '';
+    for (const child of Array.from(element.childNodes)) {
+      output += this.node(child);
+    }
+    return output;
+  }
+
+  private static node(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return (node.textContent || '').replace(/\s+/g, ' ');
+    }
+    if (!(node instanceof Element) || SKIP_TAGS.has(node.tagName.toUpperCase())) {
+      return '';
+    }
+    if (this.isHidden(node) || this.exclude?.(node)) {
+      return '';
+    }
+
+    const tag = node.tagName.toUpperCase();
+
+    if (/^H[1-6]$/.test(tag)) {
+      const text = this.inline(node);
+      return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+    }
+
+    switch (tag) {
+      case 'BR':
+        return '  \n';
+      case 'HR':
+        return '\n\n---\n\n';
+      case 'A': {
+        const text = this.inline(node);
+        const href = (node as HTMLAnchorElement).href;
+        if (!text) return '';
+        return href && !href.startsWith('javascript:') ? `[${text}](${href})` : text;
+      }
+      case 'IMG': {
+        const image = node as HTMLImageElement;
+        return image.src ? `![${image.alt.trim()}](${image.src})` : '';
+      }
+      case 'STRONG':
+      case 'B': {
+        const text = this.inline(node);
+        return text ? `**${text}**` : '';
+      }
+      case 'EM':
+      case 'I': {
+        const text = this.inline(node);
+        return text ? `*${text}*` : '';
+      }
+      case 'DEL':
+      case 'S': {
+        const text = this.inline(node);
+        return text ? `~~${text}~~` : '';
+      }
+      case 'CODE': {
+        const text = node.textContent || '';
+        return text ? `\`${text.replace(/`/g, '\\`')}\`` : '';
+      }
+      case 'PRE': {
+        const language = this.codeLanguage(node);
+        return `\n\n\`\`\`${language}\n${(node.textContent || '').replace(/\n$/, '')}\n\`\`\`\n\n`;
+      }
+      case 'BLOCKQUOTE': {
+        const text = this.block(node).trim().replace(/\n{3,}/g, '\n\n');
+        return text ? `\n\n${text.split('\n').map((line) => `> ${line}`).join('\n')}\n\n` : '';
+      }
+      case 'UL':
+      case 'OL':
+        return `\n\n${this.list(node, 0)}\n\n`;
+      case 'TABLE':
+        return `\n\n${this.table(node as HTMLTableElement)}\n\n`;
+      case 'DT':
+        return `\n\n**${this.inline(node)}**\n`;
+      case 'DD':
+        return `\n: ${this.inline(node)}\n`;
+      default:
+        if (BLOCK_TAGS.has(tag)) {
+          return `\n\n${this.block(node)}\n\n`;
+        }
+        return this.block(node);
+    }
+  }
+
+  /**
+   * Render an element's content on a single line
+   */
+  private static inline(element: Element): string {
+    return this.block(element).replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Render a (possibly nested) list
+   */
+  private static list(list: Element, depth: number): string {
+    const ordered = list.tagName.toUpperCase() === 'OL';
+    const start = ordered ? (list as HTMLOListElement).start || 1 : 1;
+    const indent = '  '.repeat(depth);
+    const lines: string[] = [];
+
+    Array.from(list.children)
+      .filter((child) => child.tagName.toUpperCase() === 'LI' && !this.isHidden(child))
+      .forEach((item, index) => {
+        const marker = ordered ? `${start + index}.` : '-';
+        let text = '';
+        const nested: string[] = [];
+
+        for (const child of Array.from(item.childNodes)) {
+          if (child instanceof Element && ['UL', 'OL'].includes(child.tagName.toUpperCase())) {
+            nested.push(this.list(child, depth + 1));
+          } else {
+            text += this.node(child);
+          }
+        }
+
+        lines.push(`${indent}${marker} ${text.replace(/\s+/g, ' ').trim()}`);
+        lines.push(...nested.filter(Boolean));
+      });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a table as a GitHub-flavoured Markdown table
+   */
+  private static table(table: HTMLTableElement): string {
+    const rows = Array.from(table.rows)
+      .filter((row) => !this.isHidden(row))
+      .map((row) => Array.from(row.cells).map((cell) => this.inline(cell).replace(/\|/g, '\\|')));
+
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const width = Math.max(...rows.map((row) => row.length));
+    const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+    const [header, ...body] = rows;
+
+    return [
+      `| ${pad(header).join(' | ')} |`,
+      `| ${Array(width).fill('---').join(' | ')} |`,
+      ...body.map((row) => `| ${pad(row).join(' | ')} |`),
+    ].join('\n');
+  }
+
+  /**
+   * Language of a code block from `language-*` / `lang-*` classes
+   */
+  private static codeLanguage(pre: Element): string {
+    for (const element of [pre, pre.querySelector('code')]) {
+      const match = /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(element?.className || '');
+      if (match) {
+        return match[1];
+      }
+    }
+    return '';
+  }
+
+  private static isHidden(element: Element): boolean {
+    if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') {
+      return true;
+    }
+    if (element instanceof HTMLElement && element.isConnected) {
+      const style = window.getComputedStyle(element);
+      return style.display === 'none' || style.visibility === 'hidden';
+    }
+    return false;
+  }
+}
@@ -3,17 +3,35 @@
  */
 
 import type { JsonValue } from '../../types';
+import type { PageSnapshot } from '../../types/messaging';
+import { ElementRefs } from './element-refs';
+import { Markdown } from './markdown';
+import { Readability, type ArticleInfo } from './readability';
 
 export interface PageContent {
   url: string;
   title: string;
   html?: string;
   text?: string;
+  markdown?: string;
+  article?: ArticleInfo;
   selectedContent?: string;
+  totalLength?: number;
+  nextCursor?: string;
   timestamp: number;
   [key: string]: JsonValue | undefined;
 }
 
+export type PageContentFormat = 'html' | 'text' | 'markdown' | 'article';
+
+export interface PageContentOptions {
+  format?: PageContentFormat;
+  /** Maximum characters per chunk */
+  maxLength?: number;
+  /** Offset returned as `nextCursor` by the previous chunk */
+  cursor?: string;
+}
+
 export interface ElementInfo {
   tagName: string;
   id?: string;
@@ -34,6 +52,94 @@ export interface ElementInfo {
   [key: string]: JsonValue | undefined;
 }
 
+export interface PageMetrics {
+  scrollX: number;
+  scrollY: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  pageWidth: number;
+  pageHeight: number;
+  devicePixelRatio: number;
+  [key: string]: JsonValue | undefined;
+}
+
+export interface DocumentRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  [key: string]: JsonValue | undefined;
+}
+
+export interface SnapshotOptions {
+  selector?: string;
+  interactiveOnly?: boolean;
+  maxLines?: number;
+}
+
+// Tags whose subtree never contributes to the accessibility tree
+const SNAPSHOT_SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'LINK', 'META', 'HEAD']);
+
+// Implicit ARIA roles that depend only on the tag name
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: 'article',
+  aside: 'complementary',
+  button: 'button',
+  caption: 'caption',
+  dd: 'definition',
+  details: 'group',
+  dialog: 'dialog',
+  dt: 'term',
+  fieldset: 'group',
+  figure: 'figure',
+  footer: 'contentinfo',
+  form: 'form',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  header: 'banner',
+  hr: 'separator',
+  iframe: 'iframe',
+  li: 'listitem',
+  main: 'main',
+  menu: 'list',
+  meter: 'meter',
+  nav: 'navigation',
+  ol: 'list',
+  optgroup: 'group',
+  option: 'option',
+  output: 'status',
+  p: 'paragraph',
+  progress: 'progressbar',
+  summary: 'button',
+  table: 'table',
+  tbody: 'rowgroup',
+  td: 'cell',
+  textarea: 'textbox',
+  tfoot: 'rowgroup',
+  th: 'columnheader',
+  thead: 'rowgroup',
+  tr: 'row',
+  ul: 'list',
+};
+
+// Roles whose accessible name is computed from their content
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'rowheader', 'switch', 'tab',
+  'tooltip', 'treeitem',
+]);
+
+// Roles that always receive a ref in snapshots
+const INTERACTIVE_ROLES = new Set([
+  'button', 'checkbox', 'combobox', 'link', 'listbox', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'option', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch', 'tab',
+  'textbox', 'treeitem',
+]);
+
 export class PageInfo {
   /**
    * Get text content from an element
@@ -112,9 +218,39 @@ export class PageInfo {
   }
 
   /**
-   * Get full page content
+   * Get scroll position, viewport and full page dimensions (CSS pixels)
+   */
+  static getPageMetrics(): PageMetrics {
+    const root = document.documentElement;
+    return {
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+      viewportWidth: window.innerWidth,
+      viewportHeight: window.innerHeight,
+      pageWidth: Math.max(root.scrollWidth, document.body?.scrollWidth ?? 0),
+      pageHeight: Math.max(root.scrollHeight, document.body?.scrollHeight ?? 0),
+      devicePixelRatio: window.devicePixelRatio,
+    };
+  }
+
+  /**
+   * Get an element's bounding box relative to the document (CSS pixels)
+   */
+  static getDocumentRect(element: Element): DocumentRect {
+    const rect = element.getBoundingClientRect();
+    return {
+      x: rect.left + window.scrollX,
+      y: rect.top + window.scrollY,
+      width: rect.width,
+      height: rect.height,
+    };
+  }
+
+  /**
+   * Get page content in the requested format, optionally one chunk at a time.
+   * Without a format, returns both text and HTML.
    */
-  static getPageContent(selector?: string): PageContent {
+  static getPageContent(selector?: string, options: PageContentOptions = {}): PageContent {
     const base: PageContent = {
       url: window.location.href,
       title: document.title,
@@ -127,50 +263,103 @@ export class PageInfo {
       throw new Error(`Element "${selector}" not found`);
     }
 
+    const paginate = options.maxLength !== undefined || options.cursor !== undefined;
+    const format = options.format ?? (paginate ? 'text' : undefined);
+
+    if (!format) {
+      if (!element) {
+        base.text = '';
+        base.html = '';
+      } else if (selector) {
+        base.selectedContent = this.getText(element);
+        base.html = this.cleanHtml(element, true);
+      } else {
+        base.text = (element as HTMLElement).innerText || '';
+        base.html = this.cleanHtml(element, false);
+      }
+      return base;
+    }
+
+    let content = '';
     if (element) {
-      // Clone the element to avoid modifying the actual page
-      const clone = element.cloneNode(true) as Element;
+      switch (format) {
+        case 'html':
+          content = this.cleanHtml(element, Boolean(selector));
+          break;
+        case 'text':
+          content = (element as HTMLElement).innerText || element.textContent || '';
+          break;
+        case 'markdown':
+          content = Markdown.fromElement(element);
+          break;
+        case 'article': {
+          const main = Readability.findMainContent(element);
+          base.article = Readability.getArticleInfo(main);
+          content = Markdown.fromElement(main, { exclude: (node) => Readability.isBoilerplate(node) });
+          break;
+        }
+      }
+    }
 
-      // Remove scripts and styles from the clone
-      const scripts = clone.querySelectorAll('script');
-      scripts.forEach((el) => el.remove());
+    // Article content is Markdown
+    const field = format === 'article' ? 'markdown' : format;
+    if (!paginate) {
+      base[field] = content;
+      return base;
+    }
 
-      const styles = clone.querySelectorAll('style');
-      styles.forEach((el) => el.remove());
+    const chunk = this.paginate(content, options.cursor, options.maxLength);
+    base[field] = chunk.content;
+    base.totalLength = content.length;
+    if (chunk.nextCursor) {
+      base.nextCursor = chunk.nextCursor;
+    }
+    return base;
+  }
 
-      const iframes = clone.querySelectorAll('iframe');
-      iframes.forEach((el) => el.remove());
+  /**
+   * HTML of an element without scripts, styles, embeds and inline styles
+   */
+  private static cleanHtml(element: Element, outer: boolean): string {
+    // Clone the element to avoid modifying the actual page
+    const clone = element.cloneNode(true) as Element;
 
-      const links = clone.querySelectorAll('link');
-      links.forEach((el) => el.remove());
+    clone.querySelectorAll('script, style, iframe, link, svg').forEach((el) => el.remove());
 
-      const svgs = clone.querySelectorAll('svg');
-      svgs.forEach((el) => el.remove());
+    // Remove style attributes from all elements
+    clone.querySelectorAll('*').forEach((el) => el.removeAttribute('style'));
+    clone.removeAttribute('style');
 
-      // Remove style attributes from all elements
-      const allElements = clone.querySelectorAll('*');
-      allElements.forEach((el) => el.removeAttribute('style'));
-      if (clone.removeAttribute) {
-          clone.removeAttribute('style');
-      }
+    return outer ? clone.outerHTML : clone.innerHTML;
+  }
 
-      // If the element itself is a script or style (which shouldn't happen usually but good to check), 
-      // we might return empty or handle it. 
-      // But assuming we are selecting content blocks.
-      
-      if (selector) {
-        base.selectedContent = this.getText(element);
-        base.html = clone.outerHTML;
-      } else {
-        base.text = (element as HTMLElement).innerText || '';
-        base.html = clone.innerHTML;
+  /**
+   * Cut one chunk out of a long string. The cursor is the offset of the chunk;
+   * chunks end at a line break or space when one is close to the limit.
+   */
+  static paginate(content: string, cursor?: string, maxLength?: number): { content: string; nextCursor?: string } {
+    const start = cursor === undefined ? 0 : /^\d+$/.test(cursor) ? Number(cursor) : NaN;
+    if (!Number.isInteger(start) || start < 0 || start > content.length) {
+      throw new Error(`Invalid cursor "${cursor}": the page may have changed, start again without a cursor`);
+    }
+
+    let end = maxLength === undefined ? content.length : Math.min(start + maxLength, content.length);
+    if (end < content.length) {
+      const minEnd = start + Math.floor((end - start) * 0.8);
+      const breakAt = Math.max(content.lastIndexOf('\n', end - 1), content.lastIndexOf(' ', end - 1));
+      if (breakAt > minEnd) {
+        end = breakAt + 1;
+      }
+      // Do not split a surrogate pair (keep it whole when it is all the chunk holds)
+      if (/[\uD800-\uDBFF]/.test(content[end - 1])) {
+        end += end - 1 > start ? -1 : 1;
       }
-    } else {
-      base.text = '';
-      base.html = '';
     }
 
-    return base;
+    return {
+      content: content.slice(start, end),
+      nextCursor: end < content.length ? String(end) : undefined,
+    };
   }
 
   /**
@@ -242,14 +431,15 @@ export class PageInfo {
   /**
    * Get all links on page
    */
-  static getLinks(): Array<{ href: string; text: string; title?: string }> {
-    const links: Array<{ href: string; text: string; title?: string }> = [];
+  static getLinks(root: ParentNode = document): Array<{ href: string; text: string; title?: string; rel?: string }> {
+    const links: Array<{ href: string; text: string; title?: string; rel?: string }> = [];
 
-    document.querySelectorAll('a[href]').forEach((link) => {
+    root.querySelectorAll('a[href]').forEach((link) => {
       links.push({
         href: (link as HTMLAnchorElement).href,
-        text: link.textContent?.trim() || '',
+        text: this.normalizeWhitespace(link.textContent || ''),
         title: link.getAttribute('title') || undefined,
+        rel: link.getAttribute('rel') || undefined,
       });
     });
 
@@ -259,12 +449,12 @@ export class PageInfo {
   /**
    * Get all images on page
    */
-  static getImages(): Array<{ src: string; alt?: string; width?: number; height?: number }> {
+  static getImages(root: ParentNode = document): Array<{ src: string; alt?: string; width?: number; height?: number }> {
     const images: Array<{ src: string; alt?: string; width?: number; height?: number }> = [];
 
-    document.querySelectorAll('img').forEach((img) => {
+    root.querySelectorAll('img').forEach((img) => {
       images.push({
-        src: (img as HTMLImageElement).src,
+        src: (img as HTMLImageElement).currentSrc || (img as HTMLImageElement).src,
         alt: img.getAttribute('alt') || undefined,
         width: (img as HTMLImageElement).naturalWidth,
         height: (img as HTMLImageElement).naturalHeight,
@@ -275,18 +465,16 @@ export class PageInfo {
   }
 
   /**
-   * Get all headings on page
+   * Get all headings on page, in document order
    */
-  static getHeadings(): Array<{ level: number; text: string; id?: string }> {
+  static getHeadings(root: ParentNode = document): Array<{ level: number; text: string; id?: string }> {
     const headings: Array<{ level: number; text: string; id?: string }> = [];
 
-    ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].forEach((tag) => {
-      document.querySelectorAll(tag).forEach((heading) => {
-        headings.push({
-          level: parseInt(tag.substring(1)),
-          text: heading.textContent?.trim() || '',
-          id: heading.id || undefined,
-        });
+    root.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((heading) => {
+      headings.push({
+        level: parseInt(heading.tagName.substring(1)),
+        text: this.normalizeWhitespace(heading.textContent || ''),
+        id: heading.id || undefined,
       });
     });
 
@@ -294,26 +482,340 @@ export class PageInfo {
   }
 
   /**
-   * Get page structure (main sections)
+   * Get page structure (main sections), in document order
    */
-  static getPageStructure(): Array<{ tag: string; text: string; depth: number }> {
+  static getPageStructure(root: ParentNode = document): Array<{ tag: string; text: string; depth: number }> {
     const structure: Array<{ tag: string; text: string; depth: number }> = [];
 
-    const tags = ['h1', 'h2', 'h3', 'nav', 'main', 'section', 'article', 'aside', 'footer'];
-
-    tags.forEach((tag) => {
-      document.querySelectorAll(tag).forEach((element) => {
-        structure.push({
-          tag,
-          text: element.textContent?.trim().substring(0, 100) || '',
-          depth: element.parentElement ? this.getDepth(element) : 0,
-        });
+    root.querySelectorAll('h1, h2, h3, nav, main, section, article, aside, footer').forEach((element) => {
+      structure.push({
+        tag: element.tagName.toLowerCase(),
+        text: this.normalizeWhitespace(element.textContent || '').substring(0, 100),
+        depth: element.parentElement ? this.getDepth(element) : 0,
       });
     });
 
     return structure;
   }
 
+  /**
+   * Get a compact accessibility-tree snapshot of the page
+   *
+   * Each line is `- role "name" [state] [ref=eN]`; interactive elements get a
+   * ref that tools accept in place of a CSS selector.
+   */
+  static getSnapshot(options: SnapshotOptions = {}): PageSnapshot {
+    const { selector, interactiveOnly = false, maxLines = 2000 } = options;
+
+    const root = selector ? document.querySelector(selector) : document.body;
+    if (!root) {
+      throw new Error(`Element "${selector}" not found`);
+    }
+
+    const lines: string[] = [];
+    const refs = new Set<string>();
+    let truncated = false;
+
+    const emit = (depth: number, line: string) => {
+      if (lines.length >= maxLines) {
+        truncated = true;
+        return;
+      }
+      lines.push(`${'  '.repeat(depth)}- ${line}`);
+    };
+
+    const walk = (node: Node, depth: number, inNamedContent: boolean) => {
+      if (truncated) return;
+
+      if (node.nodeType === Node.TEXT_NODE) {
+        const text = this.normalizeWhitespace(node.textContent || '');
+        if (text && !inNamedContent && !interactiveOnly) {
+          emit(depth, `text: ${JSON.stringify(this.truncate(text, 200))}`);
+        }
+        return;
+      }
+
+      if (!(node instanceof Element) || SNAPSHOT_SKIP_TAGS.has(node.tagName) || this.isHiddenFromSnapshot(node)) {
+        return;
+      }
+
+      let role = this.getRole(node);
+      if (role === 'presentation' || role === 'none' || role === 'generic') {
+        role = null;
+      }
+      const interactive = this.isInteractive(node, role);
+
+      let childDepth = depth;
+      let childInNamedContent = inNamedContent;
+
+      if ((role || interactive) && (!interactiveOnly || interactive)) {
+        let line = role ?? 'generic';
+
+        const name = this.getAccessibleName(node, role);
+        if (name) {
+          line += ` ${JSON.stringify(this.truncate(name, 100))}`;
+        }
+
+        for (const state of this.getStates(node, role)) {
+          line += ` [${state}]`;
+        }
+
+        if (interactive) {
+          const ref = ElementRefs.refFor(node);
+          refs.add(ref);
+          line += ` [ref=${ref}]`;
+        }
+
+        const value = this.getSnapshotValue(node, role);
+        if (value !== undefined) {
+          line += `: ${JSON.stringify(this.truncate(value, 100))}`;
+        }
+
+        emit(depth, line);
+        childDepth = depth + 1;
+        childInNamedContent = inNamedContent || (role !== null && NAME_FROM_CONTENT_ROLES.has(role));
+      }
+
+      // Form controls expose their content through the value
+      if (node instanceof HTMLInputElement || node instanceof HTMLTextAreaElement || node instanceof HTMLSelectElement) {
+        return;
+      }
+
+      for (const child of Array.from(node.childNodes)) {
+        walk(child, childDepth, childInNamedContent);
+      }
+    };
+
+    walk(root, 0, false);
+
+    return {
+      url: window.location.href,
+      title: document.title,
+      tree: lines.join('\n'),
+      refs: refs.size,
+      truncated,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Get the explicit or implicit ARIA role of an element
+   */
+  static getRole(element: Element): string | null {
+    const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+    if (explicit) {
+      return explicit;
+    }
+
+    const tag = element.tagName.toLowerCase();
+    switch (tag) {
+      case 'a':
+      case 'area':
+        return element.hasAttribute('href') ? 'link' : null;
+      case 'img':
+        return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+      case 'section':
+        return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : null;
+      case 'select': {
+        const select = element as HTMLSelectElement;
+        return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+      }
+      case 'input':
+        return this.getInputRole(element as HTMLInputElement);
+      default:
+        return IMPLICIT_ROLES[tag] ?? null;
+    }
+  }
+
+  /**
+   * Compute the accessible name of an element (simplified accname algorithm)
+   */
+  static getAccessibleName(element: Element, role = this.getRole(element)): string {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy
+        .split(/\s+/)
+        .map((id) => document.getElementById(id)?.textContent || '')
+        .join(' ');
+      if (text.trim()) return this.normalizeWhitespace(text);
+    }
+
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel?.trim()) {
+      return this.normalizeWhitespace(ariaLabel);
+    }
+
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+      const labels = Array.from(element.labels ?? [])
+        .map((label) => label.textContent || '')
+        .join(' ');
+      if (labels.trim()) return this.normalizeWhitespace(labels);
+
+      if (element instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(element.type)) {
+        return element.value || (element.type === 'submit' ? 'Submit' : element.type === 'reset' ? 'Reset' : '');
+      }
+      if (element instanceof HTMLInputElement && element.type === 'image') {
+        return element.alt || 'Submit';
+      }
+
+      const placeholder = element.getAttribute('placeholder');
+      if (placeholder?.trim()) return this.normalizeWhitespace(placeholder);
+    }
+
+    if (element instanceof HTMLImageElement && element.alt) {
+      return this.normalizeWhitespace(element.alt);
+    }
+
+    const captionSelector =
+      element instanceof HTMLFieldSetElement ? ':scope > legend'
+      : element instanceof HTMLTableElement ? ':scope > caption'
+      : element.tagName === 'FIGURE' ? ':scope > figcaption'
+      : null;
+    if (captionSelector) {
+      const caption = element.querySelector(captionSelector)?.textContent;
+      if (caption?.trim()) return this.normalizeWhitespace(caption);
+    }
+
+    if (role && NAME_FROM_CONTENT_ROLES.has(role)) {
+      const text = this.normalizeWhitespace(this.getText(element));
+      if (text) return text;
+    }
+
+    return this.normalizeWhitespace(element.getAttribute('title') || '');
+  }
+
+  private static getInputRole(input: HTMLInputElement): string | null {
+    switch (input.type) {
+      case 'hidden':
+        return null;
+      case 'button':
+      case 'submit':
+      case 'reset':
+      case 'image':
+      case 'file':
+        return 'button';
+      case 'checkbox':
+        return 'checkbox';
+      case 'radio':
+        return 'radio';
+      case 'range':
+        return 'slider';
+      case 'number':
+        return 'spinbutton';
+      case 'search':
+        return input.hasAttribute('list') ? 'combobox' : 'searchbox';
+      default:
+        return input.hasAttribute('list') ? 'combobox' : 'textbox';
+    }
+  }
+
+  private static isHiddenFromSnapshot(element: Element): boolean {
+    if (element.getAttribute('aria-hidden') === 'true' || (element as HTMLElement).hidden) {
+      return true;
+    }
+    if (element instanceof HTMLInputElement && element.type === 'hidden') {
+      return true;
+    }
+    const style = window.getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden';
+  }
+
+  private static isInteractive(element: Element, role: string | null): boolean {
+    if (role && INTERACTIVE_ROLES.has(role)) {
+      return !(element instanceof HTMLOptionElement) || !element.closest('select');
+    }
+    if (element instanceof HTMLElement && element.isContentEditable && element.hasAttribute('contenteditable')) {
+      return true;
+    }
+    const tabIndex = element.getAttribute('tabindex');
+    if (tabIndex !== null && parseInt(tabIndex, 10) >= 0) {
+      return true;
+    }
+    return element.hasAttribute('onclick');
+  }
+
+  private static getStates(element: Element, role: string | null): string[] {
+    const states: string[] = [];
+    const aria = (name: string) => element.getAttribute(`aria-${name}`);
+
+    if (role === 'heading') {
+      const level = aria('level') ?? (/^H([1-6])$/.exec(element.tagName)?.[1] || null);
+      if (level) states.push(`level=${level}`);
+    }
+
+    if ((element as HTMLInputElement).disabled || aria('disabled') === 'true') {
+      states.push('disabled');
+    }
+
+    const checked = element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')
+      ? (element.indeterminate ? 'mixed' : String(element.checked))
+      : aria('checked');
+    if (checked === 'true') states.push('checked');
+    if (checked === 'mixed') states.push('checked=mixed');
+
+    if ((element instanceof HTMLOptionElement && element.selected) || aria('selected') === 'true') {
+      states.push('selected');
+    }
+
+    const expanded = element instanceof HTMLDetailsElement ? String(element.open) : aria('expanded');
+    if (expanded === 'true') states.push('expanded');
+    if (expanded === 'false') states.push('collapsed');
+
+    const pressed = aria('pressed');
+    if (pressed === 'true') states.push('pressed');
+    if (pressed === 'mixed') states.push('pressed=mixed');
+
+    if ((element as HTMLInputElement).required || aria('required') === 'true') {
+      states.push('required');
+    }
+
+    if ((element as HTMLInputElement).readOnly || aria('readonly') === 'true') {
+      states.push('readonly');
+    }
+
+    if (document.activeElement === element && element !== document.body) {
+      states.push('focused');
+    }
+
+    return states;
+  }
+
+  private static getSnapshotValue(element: Element, role: string | null): string | undefined {
+    if (element instanceof HTMLInputElement) {
+      if (['checkbox', 'radio', 'button', 'submit', 'reset', 'image', 'file'].includes(element.type)) {
+        return undefined;
+      }
+      if (element.type === 'password') {
+        return element.value ? '•'.repeat(Math.min(element.value.length, 8)) : undefined;
+      }
+      return element.value || undefined;
+    }
+
+    if (element instanceof HTMLTextAreaElement) {
+      return element.value || undefined;
+    }
+
+    if (element instanceof HTMLSelectElement) {
+      const selected = Array.from(element.selectedOptions).map((option) => option.text.trim());
+      return selected.length > 0 ? selected.join(', ') : undefined;
+    }
+
+    if (role === 'textbox' && element instanceof HTMLElement && element.isContentEditable) {
+      return this.normalizeWhitespace(element.innerText) || undefined;
+    }
+
+    const valueNow = element.getAttribute('aria-valuetext') ?? element.getAttribute('aria-valuenow');
+    return valueNow ?? undefined;
+  }
+
+  private static normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private static truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+  }
+
   private static getDepth(element: Element): number {
     let depth = 0;
     let current = element;
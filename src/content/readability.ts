@@ -0,0 +1,199 @@
+/**
+ * Readability - locate the main content of article-like pages
+ *
+ * A simplified version of the Readability heuristic: paragraphs award points to
+ * their parent and grandparent, adjusted by class/id hints and link density,
+ * and the highest scoring element wins.
+ */
+
+/**
+ * Article metadata: `title`, plus `byline`, `excerpt`, `siteName`,
+ * `publishedTime` and `lang` when the page provides them
+ */
+export interface ArticleInfo {
+  title: string;
+  [key: string]: string;
+}
+
+const POSITIVE_HINTS = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_HINTS = /ad-|ads|banner|breadcrumb|comment|contact|cookie|footer|footnote|masthead|menu|modal|nav|newsletter|popup|promo|related|share|sidebar|social|sponsor|subscribe|tags|widget/i;
+
+// Elements that hold page furniture rather than content (<header> often holds an article's title, so it is kept)
+const BOILERPLATE_TAGS = new Set(['NAV', 'ASIDE', 'FOOTER', 'FORM', 'DIALOG']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'complementary', 'contentinfo', 'banner', 'search', 'dialog']);
+
+const PARAGRAPH_SELECTOR = 'p, pre, td, blockquote';
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const SEMANTIC_SELECTORS = ['[itemprop="articleBody"]', 'article', 'main, [role="main"]'];
+
+export class Readability {
+  /**
+   * Find the element holding the main content of the page
+   */
+  static findMainContent(root: Element = document.body): Element {
+    const scores = new Map<Element, number>();
+    let totalLength = 0;
+
+    for (const paragraph of Array.from(root.querySelectorAll(PARAGRAPH_SELECTOR))) {
+      const text = (paragraph.textContent || '').trim();
+      if (text.length < MIN_PARAGRAPH_LENGTH || this.inBoilerplate(paragraph, root)) {
+        continue;
+      }
+      totalLength += text.length;
+
+      const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+      const parent = paragraph.parentElement;
+      const grandparent = parent?.parentElement;
+
+      if (parent && root.contains(parent)) {
+        scores.set(parent, (scores.get(parent) ?? this.initialScore(parent)) + score);
+      }
+      if (grandparent && root.contains(grandparent)) {
+        scores.set(grandparent, (scores.get(grandparent) ?? this.initialScore(grandparent)) + score / 2);
+      }
+    }
+
+    // Semantic markup wins when it holds most of the text (innermost markup first)
+    for (const selector of SEMANTIC_SELECTORS) {
+      const semantic = Array.from(root.querySelectorAll(selector))
+        .find((element) => totalLength > 0 && this.paragraphLength(element) >= totalLength / 2);
+      if (semantic) {
+        return semantic;
+      }
+    }
+
+    let best: Element | null = null;
+    let bestScore = 0;
+    for (const [element, score] of scores) {
+      const adjusted = score * (1 - this.linkDensity(element));
+      if (adjusted > bestScore) {
+        best = element;
+        bestScore = adjusted;
+      }
+    }
+
+    return best ?? root.querySelector('main, [role="main"], article') ?? root;
+  }
+
+  /**
+   * Whether an element is page furniture (navigation, sidebars, share widgets, ...)
+   */
+  static isBoilerplate(element: Element): boolean {
+    if (BOILERPLATE_TAGS.has(element.tagName.toUpperCase())) {
+      return true;
+    }
+
+    const role = element.getAttribute('role');
+    if (role && BOILERPLATE_ROLES.has(role)) {
+      return true;
+    }
+
+    const hints = `${typeof element.className === 'string' ? element.className : ''} ${element.id}`;
+    return NEGATIVE_HINTS.test(hints) && !POSITIVE_HINTS.test(hints);
+  }
+
+  /**
+   * Read article metadata (title, author, description, ...)
+   */
+  static getArticleInfo(content?: Element): ArticleInfo {
+    const meta = (...names: string[]) => {
+      for (const name of names) {
+        const value = document.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content')?.trim();
+        if (value) {
+          return value;
+        }
+      }
+      return undefined;
+    };
+
+    const heading = content?.querySelector('h1')?.textContent?.trim() || document.querySelector('h1')?.textContent?.trim();
+    const byline = meta('author', 'article:author')
+      || document.querySelector('[rel="author"], [itemprop="author"], .byline, .author')?.textContent?.replace(/\s+/g, ' ').trim();
+
+    const info: ArticleInfo = {
+      title: meta('og:title', 'twitter:title') || heading || document.title,
+    };
+
+    const optional: Record<string, string | undefined> = {
+      byline: byline || undefined,
+      excerpt: meta('description', 'og:description', 'twitter:description'),
+      siteName: meta('og:site_name', 'application-name'),
+      publishedTime: meta('article:published_time', 'date')
+        || document.querySelector('time[datetime]')?.getAttribute('datetime')
+        || undefined,
+      lang: document.documentElement.lang || undefined,
+    };
+
+    for (const [key, value] of Object.entries(optional)) {
+      if (value) {
+        info[key] = value;
+      }
+    }
+
+    return info;
+  }
+
+  private static initialScore(element: Element): number {
+    let score = 0;
+    switch (element.tagName.toUpperCase()) {
+      case 'ARTICLE':
+      case 'MAIN':
+        score += 10;
+        break;
+      case 'DIV':
+      case 'SECTION':
+        score += 5;
+        break;
+      case 'PRE':
+      case 'TD':
+      case 'BLOCKQUOTE':
+        score += 3;
+        break;
+      case 'OL':
+      case 'UL':
+      case 'DL':
+      case 'FORM':
+        score -= 3;
+        break;
+    }
+
+    const hints = `${typeof element.className === 'string' ? element.className : ''} ${element.id}`;
+    if (POSITIVE_HINTS.test(hints)) score += 25;
+    if (NEGATIVE_HINTS.test(hints)) score -= 25;
+
+    return score;
+  }
+
+  /**
+   * Share of an element's text that is link text
+   */
+  private static linkDensity(element: Element): number {
+    const textLength = (element.textContent || '').trim().length;
+    if (textLength === 0) {
+      return 0;
+    }
+
+    let linkLength = 0;
+    element.querySelectorAll('a').forEach((link) => {
+      linkLength += (link.textContent || '').trim().length;
+    });
+    return Math.min(linkLength / textLength, 1);
+  }
+
+  private static paragraphLength(element: Element): number {
+    return Array.from(element.querySelectorAll(PARAGRAPH_SELECTOR))
+      .map((paragraph) => (paragraph.textContent || '').trim().length)
+      .filter((length) => length >= MIN_PARAGRAPH_LENGTH)
+      .reduce((sum, length) => sum + length, 0);
+  }
+
+  private static inBoilerplate(element: Element, root: Element): boolean {
+    for (let current: Element | null = element; current && current !== root; current = current.parentElement) {
+      if (this.isBoilerplate(current)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
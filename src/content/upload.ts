@@ -0,0 +1,132 @@
+/**
+ * File Upload - attach files to file inputs and drop zones
+ *
+ * Pages cannot be handed real files from disk, but a `File` built from bytes
+ * behaves the same: it is assigned to `input.files` through a DataTransfer
+ * (followed by input/change, as after the file picker closes), or carried by a
+ * synthetic dragenter/dragover/drop for drop zones that read `dataTransfer.files`.
+ */
+
+import { WaitFor } from './wait-for';
+import { ElementLocator, type Locator } from './locators';
+
+export type UploadMode = 'input' | 'drop';
+
+export interface UploadFilePayload {
+  name: string;
+  mimeType?: string;
+  /** File content, base64 encoded */
+  content: string;
+}
+
+export interface UploadResult {
+  success: boolean;
+  mode?: UploadMode;
+  files?: Array<{ name: string; size: number; type: string }>;
+  /** Drop mode: whether the drop zone accepted the drop (cancelled dragover); the upload fails if not */
+  dropped?: boolean;
+  error?: string;
+}
+
+export class FileUpload {
+  /**
+   * Attach files to a file input, or drop them on any other element
+   */
+  static async upload(target: string | Locator, payloads: UploadFilePayload[], mode: UploadMode | 'auto' = 'auto'): Promise<UploadResult> {
+    try {
+      const result = await WaitFor.element(ElementLocator.parse(target));
+      const element = Array.isArray(result) ? result[0] : result;
+      const files = payloads.map((payload) => this.toFile(payload));
+      const summary = files.map((file) => ({ name: file.name, size: file.size, type: file.type }));
+
+      const resolvedMode = mode === 'auto' ? (this.isFileInput(element) ? 'input' : 'drop') : mode;
+      if (resolvedMode === 'input') {
+        this.setFiles(element, files);
+        return { success: true, mode: resolvedMode, files: summary };
+      }
+
+      if (!this.drop(element, files)) {
+        return {
+          success: false,
+          mode: resolvedMode,
+          files: summary,
+          dropped: false,
+          error: 'The element did not accept the drop (no dragover handler cancelled the event); target the drop zone itself or its <input type="file">',
+        };
+      }
+      return { success: true, mode: resolvedMode, files: summary, dropped: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private static setFiles(element: Element, files: File[]) {
+    if (!this.isFileInput(element)) {
+      throw new Error(`Element is not an <input type="file"> (found <${element.tagName.toLowerCase()}>)`);
+    }
+    if (element.disabled) {
+      throw new Error('The file input is disabled');
+    }
+    if (files.length > 1 && !element.multiple) {
+      throw new Error(`The file input accepts a single file (${files.length} given)`);
+    }
+
+    element.files = this.toDataTransfer(files).files;
+    element.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+  }
+
+  /**
+   * Drop files on an element as if dragged in from outside the page; false if nothing accepted them
+   */
+  private static drop(element: Element, files: File[]): boolean {
+    const dataTransfer = this.toDataTransfer(files);
+    const rect = element.getBoundingClientRect();
+    const init: DragEventInit = {
+      clientX: rect.left + rect.width / 2,
+      clientY: rect.top + rect.height / 2,
+      dataTransfer,
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+    };
+
+    element.dispatchEvent(new DragEvent('dragenter', init));
+    // A drop zone accepts the drop by cancelling dragover
+    const accepted = !element.dispatchEvent(new DragEvent('dragover', init));
+    if (!accepted) {
+      element.dispatchEvent(new DragEvent('dragleave', { ...init, cancelable: false }));
+      return false;
+    }
+    element.dispatchEvent(new DragEvent('drop', init));
+    return true;
+  }
+
+  private static toFile(payload: UploadFilePayload): File {
+    const binary = atob(payload.content);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new File([bytes], payload.name, {
+      type: payload.mimeType ?? '',
+      lastModified: Date.now(),
+    });
+  }
+
+  private static toDataTransfer(files: File[]): DataTransfer {
+    const dataTransfer = new DataTransfer();
+    for (const file of files) {
+      dataTransfer.items.add(file);
+    }
+    return dataTransfer;
+  }
+
+  // By tag name: elements inside iframes are instances of the frame's own classes
+  private static isFileInput(element: Element): element is HTMLInputElement {
+    return element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'file';
+  }
+}
@@ -2,6 +2,8 @@
  * Advanced Wait Strategies
  */
 
+import { ElementLocator, type Locator } from './locators';
+
 export interface WaitForOptions {
   timeout?: number;
   pollInterval?: number;
@@ -43,21 +45,23 @@ export class WaitFor {
    * Wait for an element to appear in the DOM
    */
   static async element(
-    selector: string,
+    target: string | Locator,
     options: WaitForOptions & { all?: boolean } = {}
   ): Promise<Element | Element[]> {
     const { all = false, ...waitOptions } = options;
+    const locator = ElementLocator.parse(target);
+    const description = ElementLocator.describe(locator);
 
     return this.condition(
       () => {
-        const elements = document.querySelectorAll(selector);
-        return all ? Array.from(elements) : elements[0];
+        const elements = ElementLocator.find(locator, all);
+        return all ? elements ?? [] : elements?.[0] ?? null;
       },
       {
         ...waitOptions,
         message: all
-          ? `Elements matching "${selector}" not found`
-          : `Element "${selector}" not found`,
+          ? `Elements matching "${description}" not found`
+          : `Element "${description}" not found`,
       }
     );
   }
@@ -66,12 +70,13 @@ export class WaitFor {
    * Wait for element to be visible
    */
   static async visible(
-    selector: string,
+    target: string | Locator,
     options: WaitForOptions & { all?: boolean } = {}
   ): Promise<Element | Element[]> {
     const { all = false, ...waitOptions } = options;
+    const selector = ElementLocator.describe(target);
 
-    const elements = await this.element(selector, { all, ...waitOptions });
+    const elements = await this.element(target, { all, ...waitOptions });
 
     const checkVisible = (el: Element) => {
       const htmlEl = el as HTMLElement;
@@ -113,10 +118,11 @@ export class WaitFor {
    * Wait for element to be clickable (visible and not obstructed)
    */
   static async clickable(
-    selector: string,
+    target: string | Locator,
     options: WaitForOptions = {}
   ): Promise<Element> {
-    const result = await this.visible(selector, options);
+    const selector = ElementLocator.describe(target);
+    const result = await this.visible(target, options);
     const element = Array.isArray(result) ? result[0] : result;
 
     const style = window.getComputedStyle(element);
@@ -234,15 +240,17 @@ export class WaitFor {
    * Wait for element text to contain value
    */
   static async textContent(
-    selector: string,
+    target: string | Locator,
     text: string,
     options: WaitForOptions & { exact?: boolean } = {}
   ): Promise<Element> {
     const { exact = false, ...waitOptions } = options;
+    const locator = ElementLocator.parse(target);
+    const selector = ElementLocator.describe(locator);
 
     return this.condition(
       () => {
-        const element = document.querySelector(selector);
+        const element = ElementLocator.find(locator)?.[0];
         if (!element) return null;
 
         const content = element.textContent?.trim() || '';
@@ -263,14 +271,17 @@ export class WaitFor {
    * Wait for element attribute to contain value
    */
   static async attribute(
-    selector: string,
+    target: string | Locator,
     attribute: string,
     value: string,
     options: WaitForOptions = {}
   ): Promise<Element> {
+    const locator = ElementLocator.parse(target);
+    const selector = ElementLocator.describe(locator);
+
     return this.condition(
       () => {
-        const element = document.querySelector(selector) as HTMLElement;
+        const element = ElementLocator.find(locator)?.[0];
         if (!element) return null;
 
         const attrValue = element.getAttribute(attribute);
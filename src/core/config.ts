@@ -12,13 +12,14 @@ export {
   addLog,
   clearLogs,
   onConfigChanged,
+  getBrowserId,
   defaultAppConfig as defaultConfig,
 } from '../../shared/storage';
 
 export type { LogEntry } from '../../shared/storage';
 
 // Re-export types from types/config
-export type { LoggingConfig, BridgeConfig, AppConfig, TimeoutConfig, ConcurrencyConfig, getDefaultConfig } from '../../types/config';
+export type { LoggingConfig, BridgeConfig, AppConfig, TimeoutConfig, ConcurrencyConfig, InputConfig, getDefaultConfig } from '../../types/config';
 
 // Keep loadConfig as an alias for getConfig for backward compatibility
 import { getConfig as _getConfig, defaultAppConfig } from '../../shared/storage';
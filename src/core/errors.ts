@@ -7,16 +7,19 @@ export enum ErrorCode {
   BRIDGE_NOT_CONNECTED = 'BRIDGE_NOT_CONNECTED',
   BRIDGE_CONNECTION_FAILED = 'BRIDGE_CONNECTION_FAILED',
   REQUEST_TIMEOUT = 'REQUEST_TIMEOUT',
+  BROWSER_NOT_FOUND = 'BROWSER_NOT_FOUND',
 
   // Tab errors
   NO_ACTIVE_TAB = 'NO_ACTIVE_TAB',
   TAB_NOT_FOUND = 'TAB_NOT_FOUND',
   TAB_LOAD_FAILED = 'TAB_LOAD_FAILED',
+  TAB_OWNED_BY_OTHER_SESSION = 'TAB_OWNED_BY_OTHER_SESSION',
 
   // Element errors
   ELEMENT_NOT_FOUND = 'ELEMENT_NOT_FOUND',
   ELEMENT_NOT_VISIBLE = 'ELEMENT_NOT_VISIBLE',
   ELEMENT_NOT_CLICKABLE = 'ELEMENT_NOT_CLICKABLE',
+  VALUE_NOT_APPLIED = 'VALUE_NOT_APPLIED',
 
   // Content script errors
   CONTENT_SCRIPT_NOT_READY = 'CONTENT_SCRIPT_NOT_READY',
@@ -29,6 +32,7 @@ export enum ErrorCode {
   // Execution errors
   TOOL_EXECUTION_FAILED = 'TOOL_EXECUTION_FAILED',
   UNKNOWN_TOOL = 'UNKNOWN_TOOL',
+  TRUSTED_INPUT_UNAVAILABLE = 'TRUSTED_INPUT_UNAVAILABLE',
 }
 
 export class AppError extends Error {
@@ -0,0 +1,89 @@
+/**
+ * File helpers shared by the upload tool and the MCP server
+ */
+
+// Total size of the files of one upload. Content travels base64 encoded through
+// the bridge and extension messaging, which add a third on top of this.
+export const MAX_UPLOAD_BYTES = 32 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  rtf: 'application/rtf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  json: 'application/json',
+  xml: 'application/xml',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  heic: 'image/heic',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+};
+
+/**
+ * MIME type for a file name, from its extension ('' if unknown, like a browser)
+ */
+export function guessMimeType(name: string): string {
+  const extension = /\.([^./\\]+)$/.exec(name)?.[1]?.toLowerCase();
+  return (extension && MIME_TYPES[extension]) ?? '';
+}
+
+/**
+ * Decoded size of base64 content
+ */
+export function base64Size(content: string): number {
+  const padding = content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0;
+  return Math.floor((content.length * 3) / 4) - padding;
+}
+
+/**
+ * Tool params fit for logging: upload_file contents (also in run_steps steps) replaced by their size
+ */
+export function withoutUploadContent(tool: string, params: unknown): unknown {
+  if (!isObject(params)) {
+    return params;
+  }
+
+  if (tool === 'upload_file' && Array.isArray(params.files)) {
+    return {
+      ...params,
+      files: params.files.map((file) => isObject(file) && typeof file.content === 'string'
+        ? { ...file, content: `[${base64Size(file.content)} bytes]` }
+        : file),
+    };
+  }
+
+  if (tool === 'run_steps' && Array.isArray(params.steps)) {
+    return {
+      ...params,
+      steps: params.steps.map((step) => isObject(step) && typeof step.tool === 'string'
+        ? { ...step, params: withoutUploadContent(step.tool, step.params) }
+        : step),
+    };
+  }
+
+  return params;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,279 @@
+/**
+ * Keyboard Layout - US key definitions shared by synthetic and trusted input
+ *
+ * Maps KeyboardEvent `key` values to their physical `code`, legacy `keyCode`
+ * (the Windows virtual key code) and the text they insert.
+ */
+
+import { AppError, ErrorCode } from './errors';
+
+export interface KeyDefinition {
+  /** KeyboardEvent.key */
+  key: string;
+  /** KeyboardEvent.code */
+  code: string;
+  /** KeyboardEvent.keyCode / Windows virtual key code */
+  keyCode: number;
+  /** Text the key inserts, if any */
+  text?: string;
+  /** KeyboardEvent.location (1 left, 2 right, 3 numpad) */
+  location?: number;
+  /** Whether Shift must be held to produce `key` */
+  shift?: boolean;
+}
+
+export interface Modifiers {
+  alt?: boolean;
+  ctrl?: boolean;
+  meta?: boolean;
+  shift?: boolean;
+}
+
+/** One step of a key sequence: a key pressed while holding modifiers */
+export interface KeyChord {
+  key: KeyDefinition;
+  modifiers: Modifiers;
+}
+
+const MODIFIER_NAMES = { Shift: 'shift', Control: 'ctrl', Alt: 'alt', Meta: 'meta' } as const;
+
+interface KeyEntry {
+  code: string;
+  keyCode: number;
+  text?: string;
+  location?: number;
+  /** key value when Shift is held */
+  shifted?: string;
+}
+
+const KEYS: Record<string, KeyEntry> = {
+  // Editing and whitespace
+  Enter: { code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Delete: { code: 'Delete', keyCode: 46 },
+  Insert: { code: 'Insert', keyCode: 45 },
+  Escape: { code: 'Escape', keyCode: 27 },
+  ' ': { code: 'Space', keyCode: 32, text: ' ' },
+
+  // Navigation
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  Home: { code: 'Home', keyCode: 36 },
+  End: { code: 'End', keyCode: 35 },
+  PageUp: { code: 'PageUp', keyCode: 33 },
+  PageDown: { code: 'PageDown', keyCode: 34 },
+
+  // Modifiers and locks
+  Shift: { code: 'ShiftLeft', keyCode: 16, location: 1 },
+  Control: { code: 'ControlLeft', keyCode: 17, location: 1 },
+  Alt: { code: 'AltLeft', keyCode: 18, location: 1 },
+  Meta: { code: 'MetaLeft', keyCode: 91, location: 1 },
+  CapsLock: { code: 'CapsLock', keyCode: 20 },
+  NumLock: { code: 'NumLock', keyCode: 144 },
+  ScrollLock: { code: 'ScrollLock', keyCode: 145 },
+
+  // System
+  Pause: { code: 'Pause', keyCode: 19 },
+  PrintScreen: { code: 'PrintScreen', keyCode: 44 },
+  ContextMenu: { code: 'ContextMenu', keyCode: 93 },
+
+  // Punctuation
+  '`': { code: 'Backquote', keyCode: 192, text: '`', shifted: '~' },
+  '-': { code: 'Minus', keyCode: 189, text: '-', shifted: '_' },
+  '=': { code: 'Equal', keyCode: 187, text: '=', shifted: '+' },
+  '[': { code: 'BracketLeft', keyCode: 219, text: '[', shifted: '{' },
+  ']': { code: 'BracketRight', keyCode: 221, text: ']', shifted: '}' },
+  '\\': { code: 'Backslash', keyCode: 220, text: '\\', shifted: '|' },
+  ';': { code: 'Semicolon', keyCode: 186, text: ';', shifted: ':' },
+  "'": { code: 'Quote', keyCode: 222, text: "'", shifted: '"' },
+  ',': { code: 'Comma', keyCode: 188, text: ',', shifted: '<' },
+  '.': { code: 'Period', keyCode: 190, text: '.', shifted: '>' },
+  '/': { code: 'Slash', keyCode: 191, text: '/', shifted: '?' },
+};
+
+// Letters: a-z, A-Z with Shift
+for (let i = 0; i < 26; i++) {
+  const lower = String.fromCharCode(97 + i);
+  const upper = lower.toUpperCase();
+  KEYS[lower] = { code: `Key${upper}`, keyCode: 65 + i, text: lower, shifted: upper };
+}
+
+// Digit row, with the symbols Shift produces on a US layout
+const DIGIT_SHIFTED = ')!@#$%^&*(';
+for (let i = 0; i < 10; i++) {
+  KEYS[String(i)] = { code: `Digit${i}`, keyCode: 48 + i, text: String(i), shifted: DIGIT_SHIFTED[i] };
+}
+
+// Function keys
+for (let i = 1; i <= 24; i++) {
+  KEYS[`F${i}`] = { code: `F${i}`, keyCode: 111 + i };
+}
+
+// Numpad keys, addressed by code (their key values collide with the main keys)
+const NUMPAD: Record<string, KeyEntry & { key: string }> = {
+  NumpadEnter: { key: 'Enter', code: 'NumpadEnter', keyCode: 13, text: '\r', location: 3 },
+  NumpadAdd: { key: '+', code: 'NumpadAdd', keyCode: 107, text: '+', location: 3 },
+  NumpadSubtract: { key: '-', code: 'NumpadSubtract', keyCode: 109, text: '-', location: 3 },
+  NumpadMultiply: { key: '*', code: 'NumpadMultiply', keyCode: 106, text: '*', location: 3 },
+  NumpadDivide: { key: '/', code: 'NumpadDivide', keyCode: 111, text: '/', location: 3 },
+  NumpadDecimal: { key: '.', code: 'NumpadDecimal', keyCode: 110, text: '.', location: 3 },
+};
+for (let i = 0; i < 10; i++) {
+  NUMPAD[`Numpad${i}`] = { key: String(i), code: `Numpad${i}`, keyCode: 96 + i, text: String(i), location: 3 };
+}
+
+// Right-hand modifiers, addressed by code
+const RIGHT_MODIFIERS: Record<string, KeyEntry & { key: string }> = {
+  ShiftRight: { key: 'Shift', code: 'ShiftRight', keyCode: 16, location: 2 },
+  ControlRight: { key: 'Control', code: 'ControlRight', keyCode: 17, location: 2 },
+  AltRight: { key: 'Alt', code: 'AltRight', keyCode: 18, location: 2 },
+  MetaRight: { key: 'Meta', code: 'MetaRight', keyCode: 92, location: 2 },
+};
+
+// Common alternative names (matched case-insensitively)
+const ALIASES: Record<string, string> = {
+  esc: 'Escape',
+  return: 'Enter',
+  space: ' ',
+  spacebar: ' ',
+  del: 'Delete',
+  ins: 'Insert',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  pgup: 'PageUp',
+  pgdn: 'PageDown',
+  ctrl: 'Control',
+  control: 'Control',
+  shift: 'Shift',
+  alt: 'Alt',
+  option: 'Alt',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+  super: 'Meta',
+  win: 'Meta',
+};
+
+// Shifted characters map back to the key that produces them
+const SHIFTED_BY_CHAR = new Map<string, string>();
+for (const [key, entry] of Object.entries(KEYS)) {
+  if (entry.shifted) {
+    SHIFTED_BY_CHAR.set(entry.shifted, key);
+  }
+}
+
+// Case-insensitive lookup of named (multi-character) keys
+const NAMED_KEYS = new Map<string, string>();
+for (const key of [...Object.keys(KEYS), ...Object.keys(NUMPAD), ...Object.keys(RIGHT_MODIFIERS)]) {
+  if (key.length > 1) {
+    NAMED_KEYS.set(key.toLowerCase(), key);
+  }
+}
+
+/**
+ * Look up a key by KeyboardEvent key value, code-style name (e.g. "Numpad1", "ShiftRight"),
+ * common alias (e.g. "Esc", "Ctrl", "Cmd") or single character.
+ * With `shift`, a key with a shifted value (e.g. "a", "1") resolves to that value ("A", "!").
+ */
+export function getKeyDefinition(name: string, shift = false): KeyDefinition | undefined {
+  // Single characters are case-sensitive ("a" vs "A")
+  if ([...name].length === 1) {
+    const entry = KEYS[name];
+    if (entry) {
+      if (shift && entry.shifted) {
+        return { key: entry.shifted, code: entry.code, keyCode: entry.keyCode, text: entry.shifted, shift: true };
+      }
+      return toDefinition(name, entry);
+    }
+
+    const base = SHIFTED_BY_CHAR.get(name);
+    if (base) {
+      const { code, keyCode } = KEYS[base];
+      return { key: name, code, keyCode, text: name, shift: true };
+    }
+    return undefined;
+  }
+
+  const lower = name.toLowerCase();
+  const resolved = NAMED_KEYS.get(lower) ?? ALIASES[lower];
+  if (!resolved) {
+    return undefined;
+  }
+
+  const byCode = NUMPAD[resolved] ?? RIGHT_MODIFIERS[resolved];
+  if (byCode) {
+    const { key, ...entry } = byCode;
+    return toDefinition(key, entry);
+  }
+  return toDefinition(resolved, KEYS[resolved]);
+}
+
+/**
+ * Parse a key sequence: chords separated by spaces, keys within a chord joined
+ * with "+" (e.g. "Control+Shift+K", "Tab Tab Enter", "Meta+a Backspace").
+ * Throws INVALID_INPUT for unknown keys.
+ */
+export function parseKeySequence(sequence: string): KeyChord[] {
+  const chords = sequence.trim().split(/\s+/).filter(Boolean);
+  if (chords.length === 0) {
+    throw new AppError(ErrorCode.INVALID_INPUT, 'Key sequence is empty');
+  }
+  return chords.map(parseChord);
+}
+
+function parseChord(chord: string): KeyChord {
+  // "+" is a key too: "Control++" and "+" name it
+  const names = chord === '+' ? ['+'] : chord.endsWith('++')
+    ? [...chord.slice(0, -2).split('+'), '+']
+    : chord.split('+');
+  if (names.some((name) => name === '')) {
+    throw new AppError(ErrorCode.INVALID_INPUT, `Invalid key chord: "${chord}"`);
+  }
+
+  const modifiers: Modifiers = {};
+  for (const name of names.slice(0, -1)) {
+    const definition = getKeyDefinition(name);
+    if (!definition || !isModifierKey(definition.key)) {
+      throw new AppError(ErrorCode.INVALID_INPUT, `"${name}" in "${chord}" is not a modifier (Control, Shift, Alt or Meta)`);
+    }
+    modifiers[MODIFIER_NAMES[definition.key]] = true;
+  }
+
+  // Shortcuts use the letter's key, whatever its case ("Control+A" is Ctrl+a, like a real keyboard)
+  let name = names[names.length - 1];
+  if ((modifiers.ctrl || modifiers.alt || modifiers.meta) && /^[a-z]$/i.test(name)) {
+    name = name.toLowerCase();
+  }
+
+  const key = getKeyDefinition(name, modifiers.shift);
+  if (!key) {
+    throw new AppError(ErrorCode.INVALID_INPUT, `Unknown key "${name}" in "${chord}"`);
+  }
+  if (key.shift) {
+    modifiers.shift = true;
+  }
+
+  return { key, modifiers };
+}
+
+/**
+ * Whether a key is a modifier (Shift, Control, Alt, Meta)
+ */
+export function isModifierKey(key: string): key is 'Shift' | 'Control' | 'Alt' | 'Meta' {
+  return key === 'Shift' || key === 'Control' || key === 'Alt' || key === 'Meta';
+}
+
+function toDefinition(key: string, entry: KeyEntry): KeyDefinition {
+  return {
+    key,
+    code: entry.code,
+    keyCode: entry.keyCode,
+    ...(entry.text !== undefined && { text: entry.text }),
+    ...(entry.location !== undefined && { location: entry.location }),
+  };
+}
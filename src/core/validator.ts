@@ -2,6 +2,9 @@
  * Runtime Input Validation using Zod-like schemas
  */
 
+import type { JsonSchema, JsonValue } from '../../types';
+import type { Locator, StructuredField } from '../../types/tools';
+
 export interface ValidationResult<T = unknown> {
   success: boolean;
   data?: T;
@@ -10,7 +13,9 @@ export interface ValidationResult<T = unknown> {
 
 export class Schema<T = unknown> {
   constructor(
-    private validateFn: (value: unknown) => ValidationResult<T>
+    private validateFn: (value: unknown) => ValidationResult<T>,
+    private jsonSchema: JsonSchema = {},
+    readonly isOptional = false
   ) {}
 
   validate(value: unknown): ValidationResult<T> {
@@ -25,6 +30,33 @@ export class Schema<T = unknown> {
     return result.data!;
   }
 
+  /**
+   * Attach a human-readable description (emitted in the JSON Schema)
+   */
+  describe(description: string): Schema<T> {
+    return new Schema<T>(this.validateFn, { ...this.jsonSchema, description }, this.isOptional);
+  }
+
+  /**
+   * Add a cross-field check on top of this schema
+   */
+  refine(check: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema<T>((value) => {
+      const result = this.validateFn(value);
+      if (result.success && !check(result.data as T)) {
+        return { success: false, error: message };
+      }
+      return result;
+    }, this.jsonSchema, this.isOptional);
+  }
+
+  /**
+   * Convert to a JSON Schema document describing the accepted input
+   */
+  toJSONSchema(): JsonSchema {
+    return this.jsonSchema;
+  }
+
   static string(options?: { min?: number; max?: number; pattern?: RegExp }) {
     return new Schema<string>((value) => {
       if (typeof value !== 'string') {
@@ -40,6 +72,11 @@ export class Schema<T = unknown> {
         return { success: false, error: 'String does not match required pattern' };
       }
       return { success: true, data: value };
+    }, {
+      type: 'string',
+      ...(options?.min !== undefined && { minLength: options.min }),
+      ...(options?.max !== undefined && { maxLength: options.max }),
+      ...(options?.pattern && { pattern: options.pattern.source }),
     });
   }
 
@@ -58,6 +95,10 @@ export class Schema<T = unknown> {
         return { success: false, error: `Number must be at most ${options.max}` };
       }
       return { success: true, data: value };
+    }, {
+      type: options?.integer ? 'integer' : 'number',
+      ...(options?.min !== undefined && { minimum: options.min }),
+      ...(options?.max !== undefined && { maximum: options.max }),
     });
   }
 
@@ -67,7 +108,7 @@ export class Schema<T = unknown> {
         return { success: false, error: 'Expected boolean' };
       }
       return { success: true, data: value };
-    });
+    }, { type: 'boolean' });
   }
 
   static literal<T extends string | number | boolean>(literalValues: readonly T[]) {
@@ -76,16 +117,26 @@ export class Schema<T = unknown> {
         return { success: false, error: `Expected one of: ${literalValues.join(', ')}` };
       }
       return { success: true, data: value as T };
+    }, {
+      type: typeof literalValues[0],
+      enum: literalValues.filter((v): v is Extract<T, string | number> => typeof v !== 'boolean'),
     });
   }
 
+  /**
+   * Defer schema construction, for recursive structures
+   */
+  static lazy<T>(factory: () => Schema<T>, jsonSchema: JsonSchema) {
+    return new Schema<T>((value) => factory().validate(value), jsonSchema);
+  }
+
   static optional<T>(schema: Schema<T>) {
     return new Schema<T | undefined>((value) => {
       if (value === undefined || value === null) {
         return { success: true, data: undefined };
       }
       return schema.validate(value);
-    });
+    }, schema.toJSONSchema(), true);
   }
 
   static object<T extends Record<string, Schema<unknown>>>(shape: T) {
@@ -93,6 +144,15 @@ export class Schema<T = unknown> {
       [K in keyof T]: T[K] extends Schema<infer V> ? V : never;
     };
 
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, schema] of Object.entries(shape)) {
+      properties[key] = schema.toJSONSchema();
+      if (!schema.isOptional) {
+        required.push(key);
+      }
+    }
+
     return new Schema<Result>((value) => {
       if (typeof value !== 'object' || value === null || Array.isArray(value)) {
         return { success: false, error: 'Expected object' };
@@ -110,6 +170,42 @@ export class Schema<T = unknown> {
       }
 
       return { success: true, data: result as Result };
+    }, {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+    });
+  }
+
+  static record<T>(valueSchema: Schema<T>, options?: { min?: number; max?: number }) {
+    return new Schema<Record<string, T>>((value) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { success: false, error: 'Expected object' };
+      }
+
+      const entries = Object.entries(value as Record<string, unknown>);
+      if (options?.min !== undefined && entries.length < options.min) {
+        return { success: false, error: `Object must have at least ${options.min} keys` };
+      }
+      if (options?.max !== undefined && entries.length > options.max) {
+        return { success: false, error: `Object must have at most ${options.max} keys` };
+      }
+
+      const result: Record<string, T> = {};
+      for (const [key, entry] of entries) {
+        const entryResult = valueSchema.validate(entry);
+        if (!entryResult.success) {
+          return { success: false, error: `Key "${key}": ${entryResult.error}` };
+        }
+        result[key] = entryResult.data as T;
+      }
+
+      return { success: true, data: result };
+    }, {
+      type: 'object',
+      additionalProperties: valueSchema.toJSONSchema(),
+      ...(options?.min !== undefined && { minProperties: options.min }),
+      ...(options?.max !== undefined && { maxProperties: options.max }),
     });
   }
 
@@ -129,69 +225,525 @@ export class Schema<T = unknown> {
       }
 
       return { success: true, data: result };
+    }, {
+      type: 'array',
+      items: itemSchema.toJSONSchema(),
     });
   }
 }
 
+// Shared field schemas
+const tabId = Schema.optional(Schema.number({ integer: true, min: 0 }))
+  .describe('Optional tab ID (defaults to current tab)');
+
+const frameId = Schema.optional(Schema.number({ integer: true, min: 0 }))
+  .describe('Optional frame ID within the tab (defaults to the top frame)');
+
+const ref = Schema.optional(Schema.string({ pattern: /^e\d+$/ }))
+  .describe('Element ref from a snapshot (e.g. "e12"), used instead of selector');
+
+const trusted = Schema.optional(Schema.boolean())
+  .describe('Send real browser input through the debugger (isTrusted events) instead of synthetic DOM events. Default: the input.trusted setting; falls back to synthetic events when the debugger is unavailable');
+
+const LOCATOR_TYPES = ['css', 'xpath', 'text', 'label', 'aria-label', 'role', 'name', 'placeholder', 'ref'] as const;
+
+const locatorSchema: Schema<Locator> = Schema.object({
+  type: Schema.literal(LOCATOR_TYPES).describe('How to locate the element'),
+  value: Schema.string({ min: 1 })
+    .describe('Selector, XPath, text, label, role, name attribute, placeholder or ref, depending on type'),
+  exact: Schema.optional(Schema.boolean())
+    .describe('Exact match for text, label, aria-label, placeholder and role name (default: case-insensitive substring)'),
+  name: Schema.optional(Schema.string()).describe('Accessible name filter for role locators'),
+  nth: Schema.optional(Schema.number({ integer: true }))
+    .describe('Pick the nth match (0-based, negative counts from the end)'),
+  within: Schema.optional(Schema.lazy(() => locatorSchema, { type: 'object' }))
+    .describe('Only search inside the element matched by this locator (same shape, can be chained)'),
+});
+
+const locator = Schema.optional(locatorSchema)
+  .describe('Locator object, used instead of selector for text, role, label, placeholder or XPath lookups');
+
+const hasElementTarget = (value: { selector?: string; ref?: string; locator?: Locator }) =>
+  value.selector !== undefined || value.ref !== undefined || value.locator !== undefined;
+
+const ELEMENT_TARGET_REQUIRED = 'One of "selector", "ref" or "locator" is required';
+
+const STRUCTURED_FIELD_TYPES = ['string', 'number', 'boolean', 'url', 'date'] as const;
+
+const structuredFieldSchema: Schema<StructuredField> = Schema.object({
+  selector: Schema.optional(Schema.string({ min: 1 }))
+    .describe('CSS selector inside the item (default: the item itself)'),
+  locator: Schema.optional(locatorSchema)
+    .describe('Locator searched inside the item, instead of selector'),
+  attribute: Schema.optional(Schema.string({ min: 1 }))
+    .describe('Read this attribute (e.g. "href", "data-id") instead of the text'),
+  property: Schema.optional(Schema.string({ min: 1 }))
+    .describe('Read this DOM property (e.g. "value", "checked", "href") instead of the text'),
+  type: Schema.optional(Schema.literal(STRUCTURED_FIELD_TYPES))
+    .describe('Coerce the value: string (default), number, boolean, url (absolute) or date (ISO 8601)'),
+  all: Schema.optional(Schema.boolean())
+    .describe('Return the values of all matching elements as an array'),
+}).refine(
+  (field) => field.attribute === undefined || field.property === undefined,
+  'Use either "attribute" or "property", not both'
+);
+
+// Any JSON value / object, checked later (e.g. step params by the step's own tool).
+// The value is optional but, unlike Schema.optional, keeps `null` as a value.
+const optionalJsonValue = new Schema<JsonValue | undefined>(
+  (value) => ({ success: true, data: value as JsonValue | undefined }),
+  {},
+  true
+);
+
+const jsonObject = new Schema<Record<string, JsonValue>>((value) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { success: false, error: 'Expected object' };
+  }
+  return { success: true, data: value as Record<string, JsonValue> };
+}, { type: 'object' });
+
+const stepAssertionSchema = Schema.object({
+  path: Schema.optional(Schema.string({ min: 1 }))
+    .describe('Dot path into the step result, e.g. "content.title" or "result.items.0.name" (default: the whole result)'),
+  equals: optionalJsonValue.describe('Value must equal this (null included)'),
+  contains: Schema.optional(Schema.string()).describe('Value (as text) must contain this'),
+  matches: Schema.optional(Schema.string({ min: 1 })).describe('Value (as text) must match this regular expression'),
+  exists: Schema.optional(Schema.boolean()).describe('Value must be present (true) or absent (false)'),
+}).refine(
+  (assertion) => [assertion.equals, assertion.contains, assertion.matches, assertion.exists].some((check) => check !== undefined),
+  'An assertion needs one of "equals", "contains", "matches" or "exists"'
+);
+
+const stepSchema = Schema.object({
+  tool: Schema.string({ min: 1 }).describe('Tool to run, e.g. "navigate", "fill", "click", "wait_for" or "extract"'),
+  params: Schema.optional(jsonObject).describe('Arguments of the tool'),
+  continueOnError: Schema.optional(Schema.boolean())
+    .describe('Keep going if this step fails (default: the run-level setting)'),
+  assert: Schema.optional(Schema.array(stepAssertionSchema))
+    .describe('Checks on the step result; a failed check fails the step'),
+});
+
+const uploadFileSchema = Schema.object({
+  name: Schema.optional(Schema.string({ min: 1 }))
+    .describe('File name, e.g. "resume.pdf" (default: the name of the file at "path")'),
+  mimeType: Schema.optional(Schema.string())
+    .describe('MIME type, e.g. "application/pdf" (default: guessed from the name)'),
+  content: Schema.optional(Schema.string())
+    .describe('File content, base64 encoded'),
+  path: Schema.optional(Schema.string({ min: 1 }))
+    .describe('Path of a file on the machine running the MCP server, which reads it and sends its content'),
+}).refine(
+  (file) => (file.content === undefined) !== (file.path === undefined),
+  'Each file needs exactly one of "content" or "path"'
+).refine((file) => file.path !== undefined || file.name !== undefined, 'Files given by "content" need a "name"');
+
+const waitUntil = Schema.optional(Schema.literal(['commit', 'domcontentloaded', 'load', 'networkidle'] as const))
+  .describe('When to return: on commit, DOMContentLoaded, load (default), or load plus 500ms without network requests');
+
+const pageLoadTimeout = Schema.optional(Schema.number({ integer: true, min: 0 }))
+  .describe('Maximum time to wait in milliseconds (default: the configured page load timeout)');
+
+const windowId = Schema.optional(Schema.number({ integer: true, min: 0 }))
+  .describe('Window ID from list_windows (defaults to the current window)');
+
+const windowBounds = {
+  left: Schema.optional(Schema.number({ integer: true })).describe('Distance from the left edge of the screen in pixels'),
+  top: Schema.optional(Schema.number({ integer: true })).describe('Distance from the top edge of the screen in pixels'),
+  width: Schema.optional(Schema.number({ integer: true, min: 1 })).describe('Width in pixels'),
+  height: Schema.optional(Schema.number({ integer: true, min: 1 })).describe('Height in pixels'),
+  state: Schema.optional(Schema.literal(['normal', 'minimized', 'maximized', 'fullscreen'] as const))
+    .describe('Window state (sizes and positions only apply to "normal")'),
+};
+
+const timeout = Schema.optional(Schema.number({ integer: true, min: 0 }))
+  .describe('Maximum time to wait in milliseconds (default: 10000)');
+
 // Tool input schemas
 export const Schemas = {
   navigate: Schema.object({
-    url: Schema.string({ min: 1 }),
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
+    url: Schema.string({ min: 1 }).describe('The URL to navigate to'),
+    tabId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Optional tab ID to navigate in a specific tab (default: open a new tab)'),
+    waitUntil,
+    timeout: pageLoadTimeout,
   }),
 
   click: Schema.object({
-    selector: Schema.string({ min: 1 }),
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
-  }),
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the element to click'),
+    ref,
+    locator,
+    trusted,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
 
   clickAt: Schema.object({
-    x: Schema.number({ min: 0 }),
-    y: Schema.number({ min: 0 }),
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
+    x: Schema.number({ min: 0 }).describe('X coordinate in pixels (relative to the viewport)'),
+    y: Schema.number({ min: 0 }).describe('Y coordinate in pixels (relative to the viewport)'),
+    trusted,
+    tabId,
+    frameId,
   }),
 
   fill: Schema.object({
-    selector: Schema.string({ min: 1 }),
-    value: Schema.string(),
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
-  }),
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the input, textarea or contenteditable element'),
+    value: Schema.string().describe('The text value to fill'),
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
 
   getPageContent: Schema.object({
-    selector: Schema.optional(Schema.string({ min: 1 })),
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('Optional CSS selector to get content from specific element'),
+    format: Schema.optional(Schema.literal(['html', 'text', 'markdown', 'article'] as const))
+      .describe('Output format: "html", "text", "markdown", or "article" (main content as Markdown plus title/byline metadata). Default: text and HTML'),
+    maxLength: Schema.optional(Schema.number({ integer: true, min: 100 }))
+      .describe('Maximum characters to return; pass the returned nextCursor to read the next chunk'),
+    cursor: Schema.optional(Schema.string({ min: 1 }))
+      .describe('nextCursor from the previous call, to continue reading'),
+    tabId,
+    frameId,
   }),
 
   screenshot: Schema.object({
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
-    format: Schema.optional(Schema.literal(['png', 'jpeg'] as const)),
-    quality: Schema.optional(Schema.number({ min: 0, max: 100 })),
+    tabId,
+    format: Schema.optional(Schema.literal(['png', 'jpeg'] as const))
+      .describe('Image format (default: png)'),
+    quality: Schema.optional(Schema.number({ min: 0, max: 100 }))
+      .describe('Quality for JPEG (0-100, default: 90)'),
+    maxWidth: Schema.optional(Schema.number({ integer: true, min: 1 }))
+      .describe('Downscale the image to at most this many pixels wide'),
+    clip: Schema.optional(Schema.object({
+      x: Schema.number({ min: 0 }),
+      y: Schema.number({ min: 0 }),
+      width: Schema.number({ min: 1 }),
+      height: Schema.number({ min: 1 }),
+    })).describe('Region to capture, in CSS pixels (relative to the viewport, or to the page when fullPage is set)'),
+    fullPage: Schema.optional(Schema.boolean())
+      .describe('Capture the whole scrollable page instead of the viewport'),
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('Capture only the element matching this CSS selector'),
+    ref,
+    locator,
   }),
 
+  listBrowsers: Schema.object({}),
+
   listTabs: Schema.object({
-    activeOnly: Schema.optional(Schema.boolean()),
+    activeOnly: Schema.optional(Schema.boolean())
+      .describe('Only list active tabs from each window'),
   }),
 
   activateTab: Schema.object({
-    tabId: Schema.number({ integer: true, min: 0 }),
+    tabId: Schema.number({ integer: true, min: 0 }).describe('The tab ID to activate'),
   }),
 
   reload: Schema.object({
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
+    tabId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Optional tab ID to reload (defaults to current tab)'),
   }),
 
-  querySelector: Schema.object({
-    selector: Schema.string({ min: 1 }),
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
+  goBack: Schema.object({
+    tabId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Optional tab ID (defaults to current tab)'),
+    waitUntil,
+    timeout: pageLoadTimeout,
+  }),
+
+  goForward: Schema.object({
+    tabId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Optional tab ID (defaults to current tab)'),
+    waitUntil,
+    timeout: pageLoadTimeout,
+  }),
+
+  newTab: Schema.object({
+    url: Schema.optional(Schema.string({ min: 1 })).describe('URL to open (default: a blank new tab)'),
+    background: Schema.optional(Schema.boolean()).describe('Open without switching to the tab'),
+    windowId,
+    waitUntil,
+    timeout: pageLoadTimeout,
+  }),
+
+  closeTab: Schema.object({
+    tabId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Optional tab ID to close (defaults to current tab)'),
+  }),
+
+  duplicateTab: Schema.object({
+    tabId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Optional tab ID to duplicate (defaults to current tab)'),
+  }),
+
+  pinTab: Schema.object({
+    tabId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Optional tab ID (defaults to current tab)'),
+    pinned: Schema.optional(Schema.boolean()).describe('Pin (default) or unpin the tab'),
+  }),
+
+  moveTab: Schema.object({
+    tabId: Schema.number({ integer: true, min: 0 }).describe('The tab ID to move'),
+    index: Schema.number({ integer: true, min: -1 }).describe('New position in the window (-1 for the end)'),
+    windowId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Move to this window (default: stay in the same window)'),
+  }),
+
+  listWindows: Schema.object({}),
+
+  newWindow: Schema.object({
+    url: Schema.optional(Schema.string({ min: 1 })).describe('URL to open in the new window'),
+    incognito: Schema.optional(Schema.boolean())
+      .describe('Open a private window (requires the extension to be allowed in incognito)'),
+    focused: Schema.optional(Schema.boolean()).describe('Focus the new window (default: true)'),
+    ...windowBounds,
+  }),
+
+  closeWindow: Schema.object({
+    windowId: Schema.number({ integer: true, min: 0 }).describe('The window ID to close'),
   }),
 
+  resizeWindow: Schema.object({
+    windowId,
+    ...windowBounds,
+  }).refine(
+    (value) => ['left', 'top', 'width', 'height', 'state'].some((key) => key in value),
+    'One of "left", "top", "width", "height" or "state" is required'
+  ),
+
+  querySelector: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector to query'),
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
   querySelectorAll: Schema.object({
-    selector: Schema.string({ min: 1 }),
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector to query'),
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  snapshot: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('Optional CSS selector for the root element of the snapshot'),
+    interactiveOnly: Schema.optional(Schema.boolean())
+      .describe('Only include interactive elements (default: false)'),
+    tabId,
+    frameId,
   }),
 
   getFormValues: Schema.object({
-    selector: Schema.optional(Schema.string({ min: 1 })),
-    tabId: Schema.optional(Schema.number({ integer: true, min: 0 })),
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('Optional CSS selector for a specific form'),
+    tabId,
+    frameId,
+  }),
+
+  type: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the input, textarea or contenteditable element'),
+    text: Schema.string().describe('The text to type'),
+    delay: Schema.optional(Schema.number({ min: 0 }))
+      .describe('Delay between keystrokes in milliseconds (default: 50)'),
+    clear: Schema.optional(Schema.boolean())
+      .describe('Clear the field before typing (default: true)'),
+    ref,
+    locator,
+    trusted,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  pressKey: Schema.object({
+    key: Schema.string({ min: 1 }).describe('The key to press, as a KeyboardEvent key value'),
+    ctrl: Schema.optional(Schema.boolean()).describe('Hold the Control key'),
+    alt: Schema.optional(Schema.boolean()).describe('Hold the Alt key'),
+    shift: Schema.optional(Schema.boolean()).describe('Hold the Shift key'),
+    meta: Schema.optional(Schema.boolean()).describe('Hold the Meta (Command) key'),
+    trusted,
+    tabId,
+    frameId,
+  }),
+
+  pressKeys: Schema.object({
+    keys: Schema.string({ min: 1 })
+      .describe('Key sequence: chords separated by spaces, keys in a chord joined with "+", e.g. "Control+Shift+K", "Tab Tab Enter", "Meta+a Backspace". Keys are KeyboardEvent key values ("Enter", "ArrowDown", "a", "F5") or aliases ("Ctrl", "Cmd", "Esc", "Space")'),
+    delay: Schema.optional(Schema.number({ min: 0 }))
+      .describe('Delay between chords in milliseconds (default: 50)'),
+    trusted,
+    tabId,
+    frameId,
+  }),
+
+  hover: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the element to hover'),
+    ref,
+    locator,
+    trusted,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  drag: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the element to drag'),
+    ref,
+    locator,
+    target: Schema.optional(Schema.object({
+      selector: Schema.optional(Schema.string({ min: 1 })),
+      ref,
+      locator,
+    }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED))
+      .describe('Element to drop on (its center)'),
+    offset: Schema.optional(Schema.object({
+      x: Schema.number(),
+      y: Schema.number(),
+    })).describe('Drop at this offset in pixels from the center of the dragged element'),
+    to: Schema.optional(Schema.object({
+      x: Schema.number({ min: 0 }),
+      y: Schema.number({ min: 0 }),
+    })).describe('Drop at these coordinates (pixels relative to the viewport)'),
+    mode: Schema.optional(Schema.literal(['auto', 'html5', 'pointer'] as const))
+      .describe('"html5" for draggable="true" elements (drag events with a DataTransfer), "pointer" for libraries driven by pointer/mouse events. Default "auto": html5 if the element is draggable'),
+    steps: Schema.optional(Schema.number({ integer: true, min: 1, max: 100 }))
+      .describe('Number of intermediate moves (default: 10)'),
+    delay: Schema.optional(Schema.number({ min: 0 }))
+      .describe('Delay between moves in milliseconds (default: 16)'),
+    trusted,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED).refine(
+    (value) => [value.target, value.offset, value.to].filter((destination) => destination !== undefined).length === 1,
+    'Exactly one of "target", "offset" or "to" is required'
+  ),
+
+  uploadFile: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for an <input type="file"> or a drop zone'),
+    ref,
+    locator,
+    files: Schema.array(uploadFileSchema).describe('Files to attach'),
+    mode: Schema.optional(Schema.literal(['auto', 'input', 'drop'] as const))
+      .describe('"input" sets the files of a file input, "drop" drops them on the element. Default "auto": input for file inputs, drop otherwise'),
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED)
+    .refine((value) => value.files.length > 0 && value.files.length <= 20, 'Between 1 and 20 files are required'),
+
+  selectOption: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the select element'),
+    value: Schema.string().describe('The value of the option to select'),
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  getText: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the element'),
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  getAttribute: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the element'),
+    attribute: Schema.string({ min: 1 }).describe('The attribute name to read'),
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  waitFor: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector to wait for'),
+    timeout,
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  waitForVisible: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector to wait for'),
+    timeout,
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  waitForText: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector for the element'),
+    text: Schema.string({ min: 1 }).describe('The text to wait for'),
+    exact: Schema.optional(Schema.boolean())
+      .describe('Require an exact match instead of a substring match (default: false)'),
+    timeout,
+    ref,
+    locator,
+    tabId,
+    frameId,
+  }).refine(hasElementTarget, ELEMENT_TARGET_REQUIRED),
+
+  extract: Schema.object({
+    mode: Schema.literal(['links', 'images', 'headings', 'tables', 'metadata', 'structure'] as const)
+      .describe('What to extract: links, images, headings, tables (rows keyed by column header), metadata (OpenGraph, Twitter, canonical, JSON-LD, microdata) or structure (page outline)'),
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('Optional CSS selector to extract from a specific element only'),
+    sameOriginOnly: Schema.optional(Schema.boolean())
+      .describe('links: only return links to the page\'s own origin'),
+    filter: Schema.optional(Schema.string({ min: 1 }))
+      .describe('Only return items whose URL or text contains this (case-insensitive)'),
+    limit: Schema.optional(Schema.number({ integer: true, min: 1, max: 10000 }))
+      .describe('Maximum number of items to return (default: 500)'),
+    tabId,
+    frameId,
+  }),
+
+  extractStructured: Schema.object({
+    selector: Schema.optional(Schema.string({ min: 1 }))
+      .describe('CSS selector matching each item (e.g. ".product-card")'),
+    locator,
+    fields: Schema.record(structuredFieldSchema, { min: 1, max: 100 })
+      .describe('Map of output field name to how to read it from each item'),
+    limit: Schema.optional(Schema.number({ integer: true, min: 1, max: 10000 }))
+      .describe('Maximum number of items to return (default: 500)'),
+    tabId,
+    frameId,
+  }).refine((value) => value.selector !== undefined || value.locator !== undefined, 'One of "selector" or "locator" is required'),
+
+  runSteps: Schema.object({
+    steps: Schema.array(stepSchema).describe('Steps to run in order'),
+    continueOnError: Schema.optional(Schema.boolean())
+      .describe('Keep going after a failed step (default: stop at the first failure)'),
+    tabId: Schema.optional(Schema.number({ integer: true, min: 0 }))
+      .describe('Tab for steps that do not set tabId (default: current tab)'),
+  }).refine((value) => value.steps.length > 0 && value.steps.length <= 100, 'Between 1 and 100 steps are required'),
+
+  getLogs: Schema.object({
+    level: Schema.optional(Schema.literal(['debug', 'info', 'warn', 'error'] as const))
+      .describe('Minimum level to include (default: all recorded levels)'),
+    context: Schema.optional(Schema.string({ min: 1 }))
+      .describe('Only include entries from this context (e.g. "Background")'),
+    limit: Schema.optional(Schema.number({ integer: true, min: 1, max: 1000 }))
+      .describe('Maximum number of most recent entries to return (default: 100)'),
   }),
 } as const;
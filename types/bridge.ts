@@ -1,14 +1,49 @@
 import type { JsonValue } from './index';
 
 export interface BridgeMessage {
-  type: 'hello' | 'tool_call' | 'response' | 'error';
+  type: 'hello' | 'tool_call' | 'response' | 'error' | 'capabilities' | 'session_closed' | 'list_browsers' | 'event';
   id?: string;
   tool?: string;
   params?: Record<string, JsonValue>;
   data?: JsonValue | null;
   error?: string;
+  code?: string;
   client?: 'extension' | 'mcp-server';
   status?: string;
+  tools?: string[];
+  token?: string;
+  /** MCP session a tool call originates from (assigned by the bridge) */
+  sessionId?: string;
+  /** Browser a tool call should run in (id or name from list_browsers) */
+  browserId?: string;
+  /** Identity an extension registers with in hello */
+  browser?: BrowserIdentity;
+  /** Name of a browser event (e.g. 'tab_updated', 'tabs_changed') */
+  event?: BrowserEventName;
+}
+
+export type BrowserEventName = 'tab_updated' | 'tabs_changed';
+
+/**
+ * Identity of a connected browser/extension instance
+ */
+export interface BrowserIdentity {
+  /** Stable per-profile instance ID */
+  id: string;
+  /** Human-readable label (defaults to the browser name) */
+  name: string;
+  browser: string;
+  version?: string;
+  profile?: string;
+}
+
+/**
+ * Browser entry returned by list_browsers
+ */
+export interface BrowserInfo extends BrowserIdentity {
+  extensionId?: string;
+  connectedAt: string;
+  isDefault: boolean;
 }
 
 export type BridgeClientType = 'extension' | 'mcp-server';
@@ -19,4 +54,5 @@ export interface BridgeClientConfig {
   reconnectInterval: number;
   maxReconnectAttempts: number;
   messageQueueLimit: number;
+  token?: string;
 }
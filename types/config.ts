@@ -9,6 +9,12 @@ export interface BridgeConfig {
   reconnectInterval: number;
   maxReconnectAttempts: number;
   messageQueueLimit: number;
+  /** Shared secret presented in hello (see ~/.mcp-in-browser/bridge-token) */
+  token?: string;
+  /** Label this browser registers with (shown by list_browsers) */
+  name?: string;
+  /** Profile label this browser registers with */
+  profile?: string;
 }
 
 export interface TimeoutConfig {
@@ -23,17 +29,23 @@ export interface ConcurrencyConfig {
   maxGlobal: number;
 }
 
+export interface InputConfig {
+  /** Send clicks and keys through chrome.debugger (trusted events) unless a call says otherwise */
+  trusted: boolean;
+}
+
 export interface AppConfig {
   bridge: BridgeConfig;
   timeouts: TimeoutConfig;
   concurrency: ConcurrencyConfig;
   logging: LoggingConfig;
+  input: InputConfig;
 }
 
 export function getDefaultConfig(): AppConfig {
   return {
     bridge: {
-      url: 'ws://localhost:37373',
+      url: 'ws://127.0.0.1:37373',
       port: 37373,
       reconnectInterval: 2000,
       maxReconnectAttempts: 10,
@@ -53,5 +65,8 @@ export function getDefaultConfig(): AppConfig {
       level: 'info',
       enableTracing: true,
     },
+    input: {
+      trusted: false,
+    },
   };
 }
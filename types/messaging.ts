@@ -16,6 +16,7 @@ export interface ContentMessage {
 export type ContentHandlerResult =
   | { success: boolean; error?: string }
   | { success: true; content: PageContent }
+  | { success: true; snapshot: PageSnapshot }
   | { success: true; element: ElementInfo }
   | { success: true; elements: ElementInfo[] }
   | { success: true; values: Record<string, FormDataEntryValue | FormDataEntryValue[]> }
@@ -35,7 +36,21 @@ export interface PageContent {
   url: string;
   text?: string;
   html?: string;
+  markdown?: string;
+  article?: { title: string; [key: string]: string };
   selectedContent?: string;
+  totalLength?: number;
+  nextCursor?: string;
+  timestamp?: number;
+  [key: string]: JsonValue | undefined;
+}
+
+export interface PageSnapshot {
+  title: string;
+  url: string;
+  tree: string;
+  refs: number;
+  truncated: boolean;
   timestamp?: number;
   [key: string]: JsonValue | undefined;
 }
@@ -17,6 +17,49 @@ export interface ToolResult {
   error?: string;
 }
 
+// Element locators
+export type LocatorType =
+  | 'css'
+  | 'xpath'
+  | 'text'
+  | 'label'
+  | 'aria-label'
+  | 'role'
+  | 'name'
+  | 'placeholder'
+  | 'ref';
+
+export interface Locator {
+  type: LocatorType;
+  value: string;
+  /** Require an exact (whitespace-normalized) match instead of a case-insensitive substring */
+  exact?: boolean;
+  /** Accessible name filter for `role` locators */
+  name?: string;
+  /** Pick the nth match (0-based, negative counts from the end) */
+  nth?: number;
+  /** Only search inside the first element matched by this locator */
+  within?: Locator;
+}
+
+// Structured extraction
+export type StructuredFieldType = 'string' | 'number' | 'boolean' | 'url' | 'date';
+
+export interface StructuredField {
+  /** CSS selector inside the item (default: the item itself) */
+  selector?: string;
+  /** Locator searched inside the item, instead of selector */
+  locator?: Locator;
+  /** Read this attribute instead of the text */
+  attribute?: string;
+  /** Read this DOM property (e.g. "value", "checked", "href") instead of the text */
+  property?: string;
+  /** Coerce the value to this type (default: string) */
+  type?: StructuredFieldType;
+  /** Return the values of all matching elements as an array */
+  all?: boolean;
+}
+
 // Tool input interfaces
 export interface NavigateInput {
   url: string;
@@ -65,6 +108,7 @@ export interface HoverInput {
 export interface SelectOptionInput {
   selector: string;
   value: string;
+  tabId?: number;
 }
 
 export interface GetPageContentInput {
@@ -76,6 +120,12 @@ export interface ScreenshotInput {
   tabId?: number;
   format?: 'png' | 'jpeg';
   quality?: number;
+  maxWidth?: number;
+  clip?: { x: number; y: number; width: number; height: number };
+  fullPage?: boolean;
+  selector?: string;
+  ref?: string;
+  locator?: Locator;
 }
 
 export interface ListTabsInput {
@@ -140,6 +190,7 @@ export interface ScreenshotResult {
   dataUrl: string;
   width: number;
   height: number;
+  truncated?: boolean;
 }
 
 export interface TabInfo {
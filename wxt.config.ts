@@ -3,7 +3,7 @@ import { defineConfig } from 'wxt';
 // See https://wxt.dev/api/config.html
 export default defineConfig({
   modules: ['@wxt-dev/module-vue'],
-  manifest: {
+  manifest: ({ browser }) => ({
     name: 'MCP in Browser',
     description: 'Browser automation extension that works with Claude Code via MCP',
     permissions: [
@@ -11,9 +11,16 @@ export default defineConfig({
       'activeTab',
       'storage',
       'scripting',
+      'webNavigation',
+    ],
+    optional_permissions: [
+      // HTTP status and network idle for navigations
+      'webRequest',
+      // Trusted input; Firefox has no chrome.debugger and uses synthetic events
+      ...(browser === 'firefox' ? [] : ['debugger']),
     ],
     host_permissions: ['<all_urls>'],
-  },
+  }),
   webExt: {
     disabled: false,
   },